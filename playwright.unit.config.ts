@@ -0,0 +1,16 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Unit tests for server-side helpers. They import the modules directly, so no browser
+ * or dev server is started.
+ * @see https://playwright.dev/docs/test-configuration
+ */
+export default defineConfig({
+  testDir: './tests/unit',
+  /* Fail the build on CI if you accidentally left test.only in the source code. */
+  forbidOnly: !!process.env.CI,
+  /* Tests replace shared clients such as prisma, so files run one at a time. */
+  workers: 1,
+  reporter: 'list',
+  outputDir: 'test-results/unit',
+});
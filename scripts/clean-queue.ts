@@ -1,23 +1,17 @@
 import { prisma } from '../src/lib/prisma';
-import { cleanupOldJobs } from '../src/lib/queue';
+import { cleanupOldJobs } from '../src/lib/jobs';
 
 async function cleanQueue() {
   try {
     console.log('🧹 Cleaning up old jobs...');
     
-    await cleanupOldJobs();
-    
-    // Also clean up failed jobs older than 24 hours
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    
-    const deletedJobs = await prisma.jobQueue.deleteMany({
-      where: {
-        status: 'failed',
-        updatedAt: { lt: oneDayAgo },
-      },
+    // Completed jobs are kept for a week, failed jobs for 24 hours
+    const deletedJobs = await cleanupOldJobs({
+      completedOlderThan: 7 * 24 * 60 * 60 * 1000,
+      failedOlderThan: 24 * 60 * 60 * 1000,
     });
     
-    console.log(`✅ Cleaned up ${deletedJobs.count} old failed jobs`);
+    console.log(`✅ Cleaned up ${deletedJobs} old jobs`);
     
     // Clean up old rate limit entries
     const deletedRateLimits = await prisma.rateLimit.deleteMany({
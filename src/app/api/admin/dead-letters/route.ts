@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, isAdmin } from '@/lib/auth';
+import {
+  listDeadLetters,
+  getDeadLetter,
+  replayDeadLetters,
+  discardDeadLetters,
+} from '@/lib/dead-letter';
+
+const MAX_BULK_IDS = 100;
+
+async function requireAdminSession() {
+  const session = await getServerSession(authOptions);
+  return session && isAdmin(session.user) ? session : null;
+}
+
+// Inspect dead-lettered jobs: ?id= for one entry, otherwise a filtered list
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdminSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const entry = await getDeadLetter(id);
+      if (!entry) {
+        return NextResponse.json(
+          { success: false, error: 'Entry not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, entry });
+    }
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const { entries, total } = await listDeadLetters({
+      status: searchParams.get('status') || 'open',
+      type: searchParams.get('type'),
+      page,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+
+  } catch (error) {
+    console.error('Dead-letter list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Bulk replay (optionally with changed settings) or discard
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdminSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const { action, ids, settings } = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_IDS) {
+      return NextResponse.json(
+        { success: false, error: `Provide between 1 and ${MAX_BULK_IDS} ids`, code: 'INVALID_IDS' },
+        { status: 400 }
+      );
+    }
+
+    const adminId = session.user?.email || 'admin';
+
+    switch (action) {
+      case 'replay': {
+        const results = await replayDeadLetters(ids, adminId, settings);
+        return NextResponse.json({
+          success: true,
+          replayed: results.filter((result) => result.jobId).length,
+          results,
+        });
+      }
+      case 'discard': {
+        const discarded = await discardDeadLetters(ids, adminId);
+        return NextResponse.json({ success: true, discarded });
+      }
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action', code: 'INVALID_ACTION' },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    console.error('Dead-letter action error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
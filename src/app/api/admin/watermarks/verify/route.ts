@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, isAdmin } from '@/lib/auth';
+import { findWatermarkedImage } from '@/lib/forensic-watermark';
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Identify the processed image, and its owner, behind an uploaded copy
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !isAdmin(session.user)) {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'Upload the image as a "file" form field', code: 'MISSING_FILE' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'File too large. Maximum size is 20MB', code: 'FILE_TOO_LARGE' },
+        { status: 413 }
+      );
+    }
+
+    let result;
+    try {
+      result = await findWatermarkedImage(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: 'File is not a readable image', code: 'INVALID_IMAGE' },
+        { status: 400 }
+      );
+    }
+
+    if (!result) {
+      return NextResponse.json({ success: true, found: false });
+    }
+
+    // A decoded ID with no image means the output was deleted or the match is spurious
+    const { image, ...match } = result;
+    return NextResponse.json({
+      success: true,
+      found: Boolean(image),
+      ...match,
+      ...(image && {
+        image: {
+          id: image.id,
+          processedUrl: image.processedUrl,
+          thumbnailUrl: image.thumbnailUrl,
+          imageType: image.imageType,
+          createdAt: image.createdAt,
+        },
+        owner: image.user,
+      }),
+    });
+
+  } catch (error) {
+    console.error('Watermark verification error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
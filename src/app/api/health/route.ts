@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@clerk/nextjs';
+import { getStorage } from '@/lib/storage';
 
 // Health check interfaces
 interface HealthStatus {
@@ -284,21 +285,16 @@ async function checkRedisHealth(): Promise<ServiceStatus> {
 async function checkStorageHealth(): Promise<ServiceStatus> {
   const startTime = Date.now();
   try {
-    // Test storage connectivity
-    const testFile = `health_check_${Date.now()}.txt`;
-    
-    // Simulate storage operations
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
+    // Test storage connectivity; a missing object still proves the backend answers
+    const storage = getStorage();
+    await storage.head(`health_check_${Date.now()}.txt`);
+
     return {
       status: 'healthy',
       responseTime: Date.now() - startTime,
       lastCheck: new Date().toISOString(),
       details: {
-        provider: 'Supabase Storage',
-        buckets: ['processed-images', 'thumbnails', 'temp'],
-        totalSize: '2.5GB',
-        availableSpace: '97.5GB',
+        provider: storage.name,
       },
     };
   } catch (error) {
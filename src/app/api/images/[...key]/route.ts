@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deliverImage,
+  parseTransformParams,
+  verifyDeliveryUrl
+} from '@/lib/image-delivery';
+import { AppError } from '@/types';
+
+// Serve a stored original or result, resized and re-encoded per the signed query
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const key = params.key.join('/');
+    const { searchParams } = request.nextUrl;
+
+    if (!verifyDeliveryUrl(key, searchParams)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid or expired image URL',
+        code: 'INVALID_SIGNATURE'
+      }, { status: 403 });
+    }
+
+    const transform = parseTransformParams(searchParams);
+    const image = await deliverImage(key, transform, request.headers.get('accept'));
+
+    if (request.headers.get('if-none-match') === image.etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: image.etag } });
+    }
+
+    // Cacheable until the signature expires
+    const maxAge = Math.max(0, Number(searchParams.get('exp')) - Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'Content-Type': image.contentType,
+      'Content-Length': String(image.body.length),
+      'Cache-Control': `public, max-age=${maxAge}, immutable`,
+      ETag: image.etag,
+      'X-Variant-Cache': image.cached ? 'HIT' : 'MISS'
+    };
+    if (transform.format === 'auto') {
+      headers.Vary = 'Accept';
+    }
+
+    return new NextResponse(new Uint8Array(image.body), { headers });
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode < 500) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Image delivery Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
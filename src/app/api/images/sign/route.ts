@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { getDeliveryUrl, parseTransformParams } from '@/lib/image-delivery';
+import { storageKeyFromUrl } from '@/lib/storage';
+import { AppError } from '@/types';
+
+const MAX_EXPIRY = 30 * 24 * 60 * 60;
+
+// Sign delivery URLs for the user's own uploads and results
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { url, width, height, fit, format, quality, expiresIn } = body;
+    const key = typeof url === 'string' ? storageKeyFromUrl(url) : null;
+
+    // Stored keys are <folder>/<userId>/...
+    if (!key || key.split('/')[1] !== userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Image not found',
+        code: 'IMAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (expiresIn !== undefined &&
+        (!Number.isInteger(expiresIn) || expiresIn < 60 || expiresIn > MAX_EXPIRY)) {
+      return NextResponse.json({
+        success: false,
+        error: `expiresIn must be between 60 and ${MAX_EXPIRY} seconds`,
+        code: 'INVALID_TRANSFORM'
+      }, { status: 400 });
+    }
+
+    const query = new URLSearchParams();
+    if (width !== undefined) query.set('w', String(width));
+    if (height !== undefined) query.set('h', String(height));
+    if (fit !== undefined) query.set('fit', String(fit));
+    if (format !== undefined) query.set('fmt', String(format));
+    if (quality !== undefined) query.set('q', String(quality));
+    const transform = parseTransformParams(query);
+
+    return NextResponse.json({
+      success: true,
+      url: getDeliveryUrl(key, transform, { expiresIn, absolute: true })
+    });
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode < 500) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Image sign Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getJob, serializeJob, TERMINAL_JOB_STATUSES } from '@/lib/jobs';
+import type { JobStatus } from '@/lib/jobs';
+import { createJobEventStream, jobChannel } from '@/lib/job-events';
+
+export const dynamic = 'force-dynamic';
+
+// Stream live progress for a single job as Server-Sent Events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const jobId = params.jobId;
+
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns this job (allow anonymous access for guest users)
+    const userId = session?.user?.id || 'anonymous';
+    if (job.userId !== userId && session?.user?.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    return createJobEventStream({
+      channel: jobChannel(jobId),
+      signal: request.signal,
+      getSnapshot: async () => {
+        const current = await getJob(jobId);
+        return current ? serializeJob(current) : serializeJob(job);
+      },
+      // The stream ends once the job finishes
+      isFinal: (status) => TERMINAL_JOB_STATUSES.includes(status as JobStatus),
+    });
+
+  } catch (error) {
+    console.error('Job events error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { getJob, serializeJob } from '@/lib/jobs';
+import { cancelJob } from '@/lib/cancellation';
+import { estimateJobEta } from '@/lib/eta';
+import { AppError } from '@/types';
 
 export async function GET(
   request: NextRequest,
@@ -12,9 +15,7 @@ export async function GET(
     const jobId = params.jobId;
 
     // Get job from database
-    const job = await prisma.job.findUnique({
-      where: { id: jobId },
-    });
+    const job = await getJob(jobId);
 
     if (!job) {
       return NextResponse.json(
@@ -32,31 +33,69 @@ export async function GET(
       );
     }
 
+    // Unfinished jobs get a fresh ETA on every poll
+    const eta = await estimateJobEta(job);
+
     // Return job status with results if completed
-    const response: any = {
+    return NextResponse.json({
       success: true,
-      id: job.id,
-      type: job.type,
-      status: job.status,
-      progress: job.progress,
-      createdAt: job.createdAt,
-      startedAt: job.startedAt,
-      completedAt: job.completedAt,
-    };
+      ...serializeJob(job),
+      ...(eta && { eta }),
+    });
+
+  } catch (error) {
+    console.error('Job status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const jobId = params.jobId;
+
+    const job = await getJob(jobId);
 
-    if (job.status === 'completed' && job.result) {
-      response.results = (job.result as any)?.processedUrls || [];
-      response.watermarkId = (job.result as any)?.watermarkId;
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
     }
 
-    if (job.status === 'failed' && job.error) {
-      response.error = job.error;
+    const userId = session?.user?.id || 'anonymous';
+    if (job.userId !== userId && session?.user?.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
     }
 
-    return NextResponse.json(response);
+    const { refunded } = await cancelJob(job);
+
+    return NextResponse.json({
+      success: true,
+      id: jobId,
+      status: 'cancelled',
+      creditsRefunded: refunded,
+    });
 
   } catch (error) {
-    console.error('Job status error:', error);
+    if (error instanceof AppError && error.code === 'INVALID_JOB_TRANSITION') {
+      return NextResponse.json(
+        { success: false, error: 'Job can no longer be cancelled', code: 'JOB_NOT_CANCELLABLE' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Job cancel error:', error);
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listActiveJobs, serializeJob } from '@/lib/jobs';
+import { createJobEventStream, userChannel } from '@/lib/job-events';
+
+export const dynamic = 'force-dynamic';
+
+// Stream live progress for all of the signed-in user's jobs as Server-Sent Events
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return createJobEventStream({
+      channel: userChannel(userId),
+      signal: request.signal,
+      getSnapshot: async () => {
+        const jobs = await listActiveJobs(userId);
+        return { jobs: jobs.map(serializeJob) };
+      },
+    });
+
+  } catch (error) {
+    console.error('User job events error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateProvenance } from '@/lib/provenance';
+import type { SignedManifest } from '@/lib/provenance';
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+/**
+ * Validate provenance. Send multipart form data with an image `file` (checked against its
+ * embedded manifest), a sidecar `manifest`, or both; or a JSON body with `manifest`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let file: Buffer | undefined;
+    let sidecar: SignedManifest | undefined;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const upload = formData.get('file');
+      const manifest = formData.get('manifest');
+
+      if (upload instanceof File) {
+        if (upload.size > MAX_FILE_SIZE) {
+          return NextResponse.json(
+            { success: false, error: 'File too large. Maximum size is 20MB', code: 'FILE_TOO_LARGE' },
+            { status: 413 }
+          );
+        }
+        file = Buffer.from(await upload.arrayBuffer());
+      }
+
+      if (manifest) {
+        sidecar = JSON.parse(typeof manifest === 'string' ? manifest : await manifest.text());
+      }
+    } else {
+      ({ manifest: sidecar } = await request.json());
+    }
+
+    if (!file && !sidecar) {
+      return NextResponse.json(
+        { success: false, error: 'Provide an image file, a manifest, or both', code: 'MISSING_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    if (sidecar && (typeof sidecar !== 'object' || !sidecar.manifest || !sidecar.signature)) {
+      return NextResponse.json(
+        { success: false, error: 'Manifest must include manifest and signature', code: 'INVALID_MANIFEST' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...validateProvenance({ file, sidecar }) });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Manifest is not valid JSON', code: 'INVALID_MANIFEST' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Provenance validation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
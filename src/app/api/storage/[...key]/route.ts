@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage, STAGING_PREFIX } from '@/lib/storage';
+import { verifyLocalStorageUrl } from '@/lib/local-storage';
+import { QUARANTINE_PREFIX } from '@/lib/malware-scan';
+
+// Only served when the local filesystem backend is in use
+function localStorageOrNull() {
+  const storage = getStorage();
+  return storage.name === 'local' ? storage : null;
+}
+
+// Read a stored object, like a public bucket URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = localStorageOrNull();
+    const key = params.key.join('/');
+    // Quarantined and not yet inspected uploads are never served
+    const hidden = key.startsWith(QUARANTINE_PREFIX) || key.startsWith(STAGING_PREFIX);
+    const object = storage && !hidden && await storage.head(key);
+    const body = object && await storage.get(key);
+
+    if (!object || !body) {
+      return NextResponse.json({
+        success: false,
+        error: 'Object not found',
+        code: 'OBJECT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': String(object.size),
+        'Cache-Control': 'public, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Local storage GET Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Accept an upload to a signed URL, like a presigned S3 PUT
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = localStorageOrNull();
+    const key = params.key.join('/');
+
+    if (!storage) {
+      return NextResponse.json({
+        success: false,
+        error: 'Object not found',
+        code: 'OBJECT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (!verifyLocalStorageUrl(key, 'PUT', request.nextUrl.searchParams)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid or expired upload URL',
+        code: 'INVALID_SIGNATURE'
+      }, { status: 403 });
+    }
+
+    // Signed uploads with a length only accept that many bytes; checked before reading the body
+    const length = request.nextUrl.searchParams.get('len');
+    if (length && request.headers.get('content-length') !== length) {
+      return NextResponse.json({
+        success: false,
+        error: `Upload must be exactly ${length} bytes`,
+        code: 'CONTENT_LENGTH_MISMATCH'
+      }, { status: 400 });
+    }
+
+    const body = Buffer.from(await request.arrayBuffer());
+    await storage.put(key, body, {
+      contentType: request.headers.get('content-type') || undefined
+    });
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error('Local storage PUT Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
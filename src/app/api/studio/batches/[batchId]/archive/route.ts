@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { getBatch, isBatchFinished, createBatchArchive } from '@/lib/batches';
+
+export const dynamic = 'force-dynamic';
+
+// Download every completed result in a finished batch as one ZIP file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const batch = await getBatch(params.batchId, userId);
+    if (!batch) {
+      return NextResponse.json({
+        success: false,
+        error: 'Batch not found',
+        code: 'BATCH_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (!isBatchFinished(batch)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Batch is still processing',
+        code: 'BATCH_NOT_FINISHED'
+      }, { status: 409 });
+    }
+
+    if (!batch.jobs.some((job) => job.status === 'completed')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Batch has no completed results',
+        code: 'BATCH_EMPTY'
+      }, { status: 404 });
+    }
+
+    return new Response(createBatchArchive(batch), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="batch-${batch.id}.zip"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Batch archive Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
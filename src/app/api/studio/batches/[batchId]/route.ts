@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { getBatch, serializeBatch } from '@/lib/batches';
+
+// Aggregate status and progress for a batch, with each job's status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const batch = await getBatch(params.batchId, userId);
+    if (!batch) {
+      return NextResponse.json({
+        success: false,
+        error: 'Batch not found',
+        code: 'BATCH_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      batch: serializeBatch(batch)
+    });
+  } catch (error) {
+    console.error('Batch status Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
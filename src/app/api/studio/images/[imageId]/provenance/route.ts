@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { prisma } from '@/lib/prisma';
+import { verifyManifestSignature } from '@/lib/provenance';
+import type { SignedManifest } from '@/lib/provenance';
+
+// Signed provenance manifest for one of the user's processed images
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imageId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const image = await prisma.processedImage.findFirst({
+      where: { id: params.imageId, userId },
+      select: { provenance: true, provenanceUrl: true }
+    });
+    if (!image) {
+      return NextResponse.json({
+        success: false,
+        error: 'Image not found',
+        code: 'IMAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    // Images processed before manifests were introduced have none
+    if (!image.provenance) {
+      return NextResponse.json({
+        success: false,
+        error: 'No provenance manifest recorded for this image',
+        code: 'PROVENANCE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const provenance = image.provenance as unknown as SignedManifest;
+    return NextResponse.json({
+      success: true,
+      provenance,
+      provenanceUrl: image.provenanceUrl,
+      signatureValid: verifyManifestSignature(provenance)
+    });
+  } catch (error) {
+    console.error('Provenance fetch Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
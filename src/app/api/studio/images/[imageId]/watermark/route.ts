@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { prisma } from '@/lib/prisma';
+import { addWatermarkJob } from '@/lib/queue';
+import { MAX_FONT_SIZE, MAX_WATERMARK_TEXT } from '@/lib/watermark';
+import type { WatermarkConfig } from '@/types';
+import crypto from 'crypto';
+
+const WATERMARK_POSITIONS: WatermarkConfig['position'][] = [
+  'center', 'bottom-right', 'bottom-left', 'top-right', 'top-left'
+];
+
+// Queue a watermarked variant of one of the user's processed images
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { imageId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const {
+      text = '',
+      logoUrl,
+      position = 'bottom-right',
+      opacity = 0.5,
+      fontSize = 0,
+      tile = false
+    } = body;
+
+    if (!text && !logoUrl) {
+      return NextResponse.json({
+        success: false,
+        error: 'Watermark text or logoUrl is required',
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    if (logoUrl && !/^https:\/\//.test(logoUrl)) {
+      return NextResponse.json({
+        success: false,
+        error: 'logoUrl must be an https URL',
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    if (!WATERMARK_POSITIONS.includes(position)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid position. Use one of: ${WATERMARK_POSITIONS.join(', ')}`,
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    if (typeof opacity !== 'number' || opacity <= 0 || opacity > 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Opacity must be between 0 and 1',
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    if (typeof fontSize !== 'number' || fontSize < 0 || fontSize > MAX_FONT_SIZE) {
+      return NextResponse.json({
+        success: false,
+        error: `fontSize must be between 0 (scale with the image) and ${MAX_FONT_SIZE}`,
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    if (String(text).length > MAX_WATERMARK_TEXT) {
+      return NextResponse.json({
+        success: false,
+        error: `Watermark text must be at most ${MAX_WATERMARK_TEXT} characters`,
+        code: 'INVALID_WATERMARK'
+      }, { status: 400 });
+    }
+
+    const image = await prisma.processedImage.findFirst({
+      where: { id: params.imageId, userId }
+    });
+    if (!image) {
+      return NextResponse.json({
+        success: false,
+        error: 'Image not found',
+        code: 'IMAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const jobId = crypto.randomUUID();
+    await addWatermarkJob({
+      userId,
+      imageId: image.id,
+      imageUrl: image.processedUrl,
+      watermarkText: String(text),
+      logoUrl,
+      position,
+      opacity,
+      fontSize: Math.round(fontSize),
+      tile: Boolean(tile)
+    }, 0, jobId);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: 'queued'
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Watermark request Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
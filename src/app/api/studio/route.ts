@@ -1,16 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { headers } from 'next/headers';
 import { auth } from '@clerk/nextjs';
-import { processImagePipeline } from '@/lib/replicate';
-import { prisma } from '@/lib/prisma';
+import { buildPipelineSpec, stepApplies, MAX_OUTPUTS, MAX_PROMPT_LENGTH, STEP_ORDER } from '@/lib/pipeline';
+import type { PipelineSpec } from '@/lib/pipeline';
 import { ratelimit } from '@/lib/ratelimit';
 import { validateImageUrl, sanitizeInput, generateSecureId } from '@/lib/utils';
 import { trackAnalytics, trackPerformance } from '@/lib/analytics';
-import { sendNotification } from '@/lib/notifications';
-import { uploadToCloudinary, optimizeImage } from '@/lib/cloudinary';
 import { validateTurnstile } from '@/lib/turnstile';
-import { checkUserLimits, updateUserUsage } from '@/lib/limits';
-import { createAuditLog } from '@/lib/audit';
+import { checkUserLimits, getStoragePlan } from '@/lib/limits';
+import { debitCredits, refundCredits, getCreditBalance } from '@/lib/credits';
+import { addImageProcessingJob } from '@/lib/queue';
+import { REQUEST_PRIORITIES } from '@/lib/scheduler';
+import { estimateJobEta, estimateNewJobWait } from '@/lib/eta';
+import { getJob, failJob, listUserJobs, countJobsByStatus, serializeJob } from '@/lib/jobs';
+import { cancelJob } from '@/lib/cancellation';
+import { validateWebhookUrl, generateWebhookSecret } from '@/lib/webhooks';
+import type { JobWebhook } from '@/lib/webhooks';
+import { createBatch, failBatch } from '@/lib/batches';
+import { isValidRenditionSets, RENDITION_SETS } from '@/lib/renditions';
+import { findDuplicateJob, getSettingsKey, getSourceHash, DEDUPE_MODES } from '@/lib/dedupe';
+import type { DedupeMode, DuplicateMatch } from '@/lib/dedupe';
+import type { ImageProcessingJobData } from '@/lib/queue';
+import { AppError } from '@/types';
 import type { ImageType, ProcessingSettings, QueuePriority } from '@/types';
 import crypto from 'crypto';
 
@@ -24,20 +35,7 @@ const MAX_QUEUE_SIZE = 10000;
 const MAX_CONCURRENT_JOBS = 100;
 const RATE_LIMIT_STUDIO = 500;
 const RATE_LIMIT_WINDOW = 3600000; // 1 hour
-const DEFAULT_PROCESSING_TIME = 120000; // 2 minutes
-const PRIORITY_MULTIPLIERS = { low: 1.5, normal: 1.0, high: 0.5 };
-
-// Processing costs (in credits)
-const PROCESSING_COSTS = {
-  draft: 1,
-  standard: 3,
-  premium: 5,
-  upscale: 2,
-  faceEnhancement: 1,
-  backgroundRemoval: 2,
-  colorCorrection: 1,
-  noiseReduction: 1,
-};
+const MAX_BATCH_SIZE = parseInt(process.env.STUDIO_MAX_BATCH_SIZE || '50');
 
 interface EnhancedProcessingRequest {
   imageUrl: string;
@@ -53,15 +51,6 @@ interface EnhancedProcessingRequest {
   batchId?: string;
 }
 
-interface StudioRequest {
-  imageUrl: string;
-  imageType: ImageType;
-  settings: ProcessingSettings;
-  priority: QueuePriority;
-  userId?: string;
-  turnstileToken?: string;
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
@@ -91,13 +80,23 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { imageUrl, imageType, settings = {}, priority = 'normal', turnstileToken } = body;
+    const {
+      imageUrl,
+      imageUrls,
+      imageType,
+      settings = {},
+      turnstileToken,
+      webhookUrl
+    } = body;
+    const priority: QueuePriority = Object.hasOwn(REQUEST_PRIORITIES, body.priority) ? body.priority : 'normal';
+    // Near-identical images already processed with the same settings are reused by default
+    const dedupe: DedupeMode = DEDUPE_MODES.includes(body.dedupe) ? body.dedupe : 'reuse';
 
     // Validate required fields
-    if (!imageUrl || !imageType) {
+    if ((!imageUrl && !Array.isArray(imageUrls)) || !imageType) {
       return NextResponse.json({
         success: false,
-        error: 'Missing required fields: imageUrl and imageType',
+        error: 'Missing required fields: imageUrl (or imageUrls) and imageType',
         code: 'MISSING_FIELDS'
       }, { status: 400 });
     }
@@ -133,6 +132,95 @@ export async function POST(request: NextRequest) {
       }, { status: 429 });
     }
 
+    // Validate the per-job callback URL
+    if (webhookUrl) {
+      const webhookValidation = await validateWebhookUrl(webhookUrl);
+      if (!webhookValidation.valid) {
+        return NextResponse.json({
+          success: false,
+          error: webhookValidation.error,
+          code: 'INVALID_WEBHOOK_URL'
+        }, { status: 400 });
+      }
+    }
+
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      return NextResponse.json({
+        success: false,
+        error: 'settings must be an object',
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    // Validate output format and renditions
+    if (settings.format && !VALID_FORMATS.includes(settings.format)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid format. Use one of: ${VALID_FORMATS.join(', ')}`,
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    if (settings.customPrompt !== undefined &&
+        (typeof settings.customPrompt !== 'string' || settings.customPrompt.length > MAX_PROMPT_LENGTH)) {
+      return NextResponse.json({
+        success: false,
+        error: `customPrompt must be a string of at most ${MAX_PROMPT_LENGTH} characters`,
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    // Output counts and step toggles decide what is debited, so they are checked rather than coerced
+    if (settings.numOutputs !== undefined &&
+        (!Number.isInteger(settings.numOutputs) || settings.numOutputs < 1 || settings.numOutputs > MAX_OUTPUTS)) {
+      return NextResponse.json({
+        success: false,
+        error: `numOutputs must be a whole number from 1 to ${MAX_OUTPUTS}`,
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    const invalidStep = STEP_ORDER.find((name) => settings[name] !== undefined && typeof settings[name] !== 'boolean');
+    if (invalidStep) {
+      return NextResponse.json({
+        success: false,
+        error: `${invalidStep} must be true or false`,
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    if (settings.renditions !== undefined && !isValidRenditionSets(settings.renditions)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid renditions. Use any of: ${Object.keys(RENDITION_SETS).join(', ')}`,
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    // Build the pipeline the user asked for
+    let pipeline: PipelineSpec;
+    try {
+      pipeline = buildPipelineSpec(imageType, settings);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid settings',
+        code: 'INVALID_SETTINGS'
+      }, { status: 400 });
+    }
+
+    // Several images with shared settings are submitted as one batch
+    if (Array.isArray(imageUrls)) {
+      return handleBatchSubmission(userId, {
+        imageUrls,
+        imageType,
+        settings,
+        priority,
+        webhookUrl,
+        dedupe
+      }, pipeline, startTime);
+    }
+
     // Validate image URL
     const imageValidation = await validateImageUrl(imageUrl);
     if (!imageValidation.valid) {
@@ -143,32 +231,67 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Return the earlier result instead of charging for the same work twice
+    const duplicate = dedupe === 'off'
+      ? null
+      : await findStudioDuplicate(userId, imageUrl, imageType, settings);
+    if (duplicate && dedupe === 'reuse') {
+      const { results, outputs } = serializeJob(duplicate.job);
+
+      await trackAnalytics('studio_duplicate_reused', {
+        userId,
+        imageType,
+        jobId: duplicate.job.id
+      });
+
+      return NextResponse.json({
+        success: true,
+        jobId: duplicate.job.id,
+        status: 'completed',
+        creditsCharged: 0,
+        results,
+        outputs,
+        duplicate: serializeDuplicate(duplicate),
+        message: 'This image was already processed with these settings'
+      }, {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-cache',
+          'X-Processing-Time': `${Date.now() - startTime}ms`
+        }
+      });
+    }
+
     // Generate job ID
     const jobId = generateSecureId();
 
-    // Create processing job
-    const job = await prisma.processingJob.create({
-      data: {
-        id: jobId,
+    // Charge credits for the steps that will run and queue the job
+    const cost = pipeline.totalCost;
+    const webhook = webhookUrl ? { url: webhookUrl, secret: generateWebhookSecret() } : undefined;
+    try {
+      await queueStudioJob({
+        jobId,
         userId,
         imageUrl,
         imageType,
-        settings: JSON.stringify(settings),
+        settings,
+        pipeline,
         priority,
-        status: 'queued',
-        createdAt: new Date(),
+        webhook
+      });
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'INSUFFICIENT_CREDITS') {
+        const balance = await getCreditBalance(userId);
+        return NextResponse.json({
+          success: false,
+          error: 'Insufficient credits',
+          code: 'INSUFFICIENT_CREDITS',
+          required: cost,
+          available: balance.available
+        }, { status: 402 });
       }
-    });
-
-    // Start background processing
-    processImageInBackground(jobId, {
-      imageUrl,
-      imageType,
-      settings,
-      priority,
-      userId,
-      turnstileToken
-    }).catch(console.error);
+      throw error;
+    }
 
     // Track analytics
     await trackAnalytics('studio_job_created', {
@@ -178,14 +301,27 @@ export async function POST(request: NextRequest) {
       jobId
     });
 
-    // Update user usage
-    await updateUserUsage(userId, PROCESSING_COSTS[settings.quality || 'standard'] || 1);
+    // Position reflects plan priority and the user's concurrency cap
+    const job = await getJob(jobId);
+    const eta = job ? await estimateJobEta(job) : null;
 
     const response = {
       success: true,
       jobId,
       status: 'queued',
-      estimatedTime: DEFAULT_PROCESSING_TIME,
+      creditsCharged: cost,
+      pipeline: pipeline.steps
+        .filter((step) => stepApplies(step, pipeline))
+        .map((step) => ({ name: step.name, cost: step.cost })),
+      ...(eta && {
+        queuePosition: eta.queuePosition,
+        estimatedWaitTime: eta.estimatedWaitTime,
+        estimatedTime: eta.estimatedWaitTime + eta.estimatedProcessingTime,
+        estimatedCompletionAt: eta.estimatedCompletionAt
+      }),
+      // Only returned once; used to verify the X-Nexora-Signature header
+      ...(webhook && { webhookSecret: webhook.secret }),
+      ...(duplicate && { duplicate: serializeDuplicate(duplicate) }),
       message: 'Image processing started successfully'
     };
 
@@ -213,79 +349,253 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Background processing function
-async function processImageInBackground(jobId: string, studioRequest: StudioRequest) {
-  try {
-    // Update job status
-    await prisma.processingJob.update({
-      where: { id: jobId },
-      data: { status: 'processing', startedAt: new Date() }
-    });
+interface StudioJobSubmission {
+  jobId: string;
+  userId: string;
+  imageUrl: string;
+  imageType: ImageType;
+  settings: ProcessingSettings;
+  pipeline: PipelineSpec;
+  priority: QueuePriority;
+  webhook?: JobWebhook;
+  batchId?: string;
+}
 
-    // Process image using Replicate
-    const results = await processImagePipeline({
-      imageUrl: studioRequest.imageUrl,
-      imageType: studioRequest.imageType,
-      settings: studioRequest.settings
-    });
+// Output options for a studio job; part of what makes two jobs duplicates
+async function getProcessingOptions(
+  userId: string,
+  settings: ProcessingSettings
+): Promise<ImageProcessingJobData['processingOptions']> {
+  return {
+    quality: 85,
+    format: settings.format || 'jpg',
+    // Free-plan outputs are watermarked; paid plans get clean copies
+    watermark: (await getStoragePlan(userId)) === 'free',
+    renditions: settings.renditions,
+  };
+}
 
-    // Upload results to cloud storage
-    const uploadedUrls = await Promise.all(
-      results.map(url => uploadToCloudinary(url, {
-        folder: `studio/${studioRequest.userId}`,
-        transformation: { quality: 'auto', format: 'auto' }
-      }))
-    );
-
-    // Update job with results
-    await prisma.processingJob.update({
-      where: { id: jobId },
-      data: {
-        status: 'completed',
-        results: JSON.stringify(uploadedUrls),
-        completedAt: new Date()
-      }
-    });
+// The user's earlier completed job for a near-identical image with the same settings
+async function findStudioDuplicate(
+  userId: string,
+  imageUrl: string,
+  imageType: ImageType,
+  settings: ProcessingSettings
+): Promise<DuplicateMatch | null> {
+  const sourceHash = await getSourceHash(userId, imageUrl);
+  if (!sourceHash) return null;
+
+  const settingsKey = getSettingsKey({
+    imageType,
+    settings,
+    processingOptions: await getProcessingOptions(userId, settings)
+  });
+  return findDuplicateJob(userId, sourceHash, settingsKey);
+}
 
-    // Send notification
-    if (studioRequest.userId) {
-      await sendNotification(studioRequest.userId, {
-        type: 'job_completed',
-        jobId,
-        results: uploadedUrls
-      });
-    }
+function serializeDuplicate(duplicate: DuplicateMatch) {
+  return {
+    jobId: duplicate.job.id,
+    processedImageIds: duplicate.processedImageIds,
+    distance: duplicate.distance,
+    completedAt: duplicate.job.completedAt
+  };
+}
 
-    // Create audit log
-    await createAuditLog({
-      action: 'studio_job_completed',
-      userId: studioRequest.userId,
-      jobId,
-      metadata: { resultsCount: uploadedUrls.length }
-    });
+// Charge credits for the steps that will run, then queue the job; refunded if the job fails
+async function queueStudioJob(submission: StudioJobSubmission) {
+  const { jobId, userId, imageUrl, imageType, settings, pipeline, priority, webhook, batchId } = submission;
+
+  await debitCredits(userId, pipeline.totalCost, jobId, {
+    imageType,
+    steps: pipeline.steps.map((step) => step.name),
+    ...(batchId && { batchId })
+  });
 
+  try {
+    await addImageProcessingJob({
+      userId,
+      imageUrl,
+      imageType,
+      originalFilename: new URL(imageUrl).pathname.split('/').pop() || 'image',
+      processingOptions: await getProcessingOptions(userId, settings),
+      settings,
+      webhook,
+      batchId,
+    }, priority, jobId);
   } catch (error) {
-    console.error(`Job ${jobId} failed:`, error);
-    
-    // Update job status to failed
-    await prisma.processingJob.update({
-      where: { id: jobId },
-      data: {
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
+    // A stored job must not stay runnable once its credits are refunded
+    const job = await getJob(jobId);
+    if (job?.status === 'queued') {
+      await failJob(jobId, 'Failed to queue job');
+    }
+    await refundCredits(jobId, 'queue_failed');
+    throw error;
+  }
+}
+
+async function handleBatchSubmission(
+  userId: string,
+  request: {
+    imageUrls: unknown[];
+    imageType: ImageType;
+    settings: ProcessingSettings;
+    priority: QueuePriority;
+    webhookUrl?: string;
+    dedupe: DedupeMode;
+  },
+  pipeline: PipelineSpec,
+  startTime: number
+) {
+  const { imageUrls, imageType, settings, priority, webhookUrl, dedupe } = request;
+
+  if (imageUrls.length === 0 || imageUrls.length > MAX_BATCH_SIZE) {
+    return NextResponse.json({
+      success: false,
+      error: `Batches must contain between 1 and ${MAX_BATCH_SIZE} images`,
+      code: 'INVALID_BATCH_SIZE',
+      maxAllowed: MAX_BATCH_SIZE
+    }, { status: 400 });
+  }
+
+  // Validate every image before charging anything
+  for (const [index, imageUrl] of imageUrls.entries()) {
+    const imageValidation = typeof imageUrl === 'string'
+      ? await validateImageUrl(imageUrl)
+      : { valid: false, error: 'Image URL must be a string' };
+    if (!imageValidation.valid) {
+      return NextResponse.json({
+        success: false,
+        error: imageValidation.error,
+        code: 'INVALID_IMAGE_URL',
+        index
+      }, { status: 400 });
+    }
+  }
+
+  // Images already processed with these settings reuse the earlier job and aren't charged
+  const duplicates: Array<ReturnType<typeof serializeDuplicate> & { index: number; reused: boolean }> = [];
+  const pendingUrls: string[] = [];
+  for (const [index, imageUrl] of (imageUrls as string[]).entries()) {
+    const duplicate = dedupe === 'off'
+      ? null
+      : await findStudioDuplicate(userId, imageUrl, imageType, settings);
+    const reused = Boolean(duplicate) && dedupe === 'reuse';
+    if (duplicate) {
+      duplicates.push({ index, reused, ...serializeDuplicate(duplicate) });
+    }
+    if (!reused) {
+      pendingUrls.push(imageUrl);
+    }
+  }
+
+  if (pendingUrls.length === 0) {
+    return NextResponse.json({
+      success: true,
+      jobIds: [],
+      status: 'completed',
+      creditsCharged: 0,
+      duplicates,
+      message: 'Every image was already processed with these settings'
+    }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-cache',
+        'X-Processing-Time': `${Date.now() - startTime}ms`
       }
     });
+  }
+
+  const cost = pipeline.totalCost * pendingUrls.length;
+  const balance = await getCreditBalance(userId);
+  if (balance.available < cost) {
+    return NextResponse.json({
+      success: false,
+      error: 'Insufficient credits',
+      code: 'INSUFFICIENT_CREDITS',
+      required: cost,
+      available: balance.available
+    }, { status: 402 });
+  }
+
+  const batchId = generateSecureId();
+  await createBatch({ id: batchId, userId, imageType, settings });
 
-    // Send failure notification
-    if (studioRequest.userId) {
-      await sendNotification(studioRequest.userId, {
-        type: 'job_failed',
+  // One secret signs callbacks for every job in the batch
+  const webhook = webhookUrl ? { url: webhookUrl, secret: generateWebhookSecret() } : undefined;
+  const jobIds: string[] = [];
+
+  for (const imageUrl of pendingUrls) {
+    const jobId = generateSecureId();
+    try {
+      await queueStudioJob({
         jobId,
-        error: error instanceof Error ? error.message : 'Processing failed'
+        userId,
+        imageUrl,
+        imageType,
+        settings,
+        pipeline,
+        priority,
+        webhook,
+        batchId
       });
+      jobIds.push(jobId);
+    } catch (error) {
+      // Undo the jobs already queued; the batch reports failed rather than a partial submission
+      await Promise.all(jobIds.map(async (queuedId) => {
+        const job = await getJob(queuedId);
+        if (job) await cancelJob(job, 'Batch submission failed');
+      }));
+      await failBatch(batchId);
+
+      // Credits ran out part-way (e.g. a concurrent request)
+      if (error instanceof AppError && error.code === 'INSUFFICIENT_CREDITS') {
+        const { available } = await getCreditBalance(userId);
+        return NextResponse.json({
+          success: false,
+          error: 'Insufficient credits',
+          code: 'INSUFFICIENT_CREDITS',
+          required: cost,
+          available
+        }, { status: 402 });
+      }
+      throw error;
     }
   }
+
+  // The batch finishes with its last job
+  const lastJob = await getJob(jobIds[jobIds.length - 1]);
+  const eta = lastJob ? await estimateJobEta(lastJob) : null;
+
+  await trackAnalytics('studio_batch_created', {
+    userId,
+    imageType,
+    priority,
+    batchId,
+    jobCount: jobIds.length
+  });
+
+  return NextResponse.json({
+    success: true,
+    batchId,
+    jobIds,
+    status: 'queued',
+    creditsCharged: cost,
+    pipeline: pipeline.steps
+      .filter((step) => stepApplies(step, pipeline))
+      .map((step) => ({ name: step.name, cost: step.cost })),
+    ...(eta && { estimatedCompletionAt: eta.estimatedCompletionAt }),
+    // Only returned once; used to verify the X-Nexora-Signature header
+    ...(webhook && { webhookSecret: webhook.secret }),
+    ...(duplicates.length > 0 && { duplicates }),
+    message: 'Batch processing started successfully'
+  }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'no-cache',
+      'X-Processing-Time': `${Date.now() - startTime}ms`
+    }
+  });
 }
 
 export async function GET(request: NextRequest) {
@@ -311,7 +621,7 @@ export async function GET(request: NextRequest) {
       case 'credits':
         return getUserCredits(userId);
       case 'queue':
-        return getQueueStatus();
+        return getQueueStatus(userId);
       default:
         return NextResponse.json({
           success: false,
@@ -327,38 +637,71 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getUserImages(userId: string, searchParams: URLSearchParams) {
-  const page = parseInt(searchParams.get('page') || '1');
-  const limit = parseInt(searchParams.get('limit') || '20');
-  const skip = (page - 1) * limit;
+// Cancel one of the user's queued or running jobs
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const jobId = new URL(request.url).searchParams.get('jobId');
+    const job = jobId ? await getJob(jobId) : null;
+
+    if (!job || job.userId !== userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found',
+        code: 'JOB_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { refunded } = await cancelJob(job);
 
-  const images = await prisma.processingJob.findMany({
-    where: {
+    await trackAnalytics('studio_job_cancelled', {
       userId,
-      status: 'completed'
-    },
-    orderBy: { completedAt: 'desc' },
-    skip,
-    take: limit,
-    select: {
-      id: true,
-      imageType: true,
-      results: true,
-      createdAt: true,
-      completedAt: true
+      jobId: job.id,
+      creditsRefunded: refunded
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: 'cancelled',
+      creditsRefunded: refunded
+    });
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_JOB_TRANSITION') {
+      return NextResponse.json({
+        success: false,
+        error: 'Job can no longer be cancelled',
+        code: 'JOB_NOT_CANCELLABLE'
+      }, { status: 409 });
     }
-  });
 
-  const total = await prisma.processingJob.count({
-    where: { userId, status: 'completed' }
-  });
+    console.error('Studio DELETE Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+async function getUserImages(userId: string, searchParams: URLSearchParams) {
+  const page = parseInt(searchParams.get('page') || '1');
+  const limit = parseInt(searchParams.get('limit') || '20');
+
+  const { jobs, total } = await listUserJobs(userId, { status: 'completed', page, limit });
 
   return NextResponse.json({
     success: true,
-    images: images.map(img => ({
-      ...img,
-      results: JSON.parse(img.results || '[]')
-    })),
+    images: jobs.map((job) => {
+      const { id, imageType, results, outputs, createdAt, completedAt } = serializeJob(job);
+      return { id, imageType, results, outputs, createdAt, completedAt };
+    }),
     pagination: {
       page,
       limit,
@@ -372,23 +715,12 @@ async function getUserJobs(userId: string, searchParams: URLSearchParams) {
   const status = searchParams.get('status');
   const page = parseInt(searchParams.get('page') || '1');
   const limit = parseInt(searchParams.get('limit') || '20');
-  const skip = (page - 1) * limit;
-
-  const where: any = { userId };
-  if (status) where.status = status;
 
-  const jobs = await prisma.processingJob.findMany({
-    where,
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit
-  });
-
-  const total = await prisma.processingJob.count({ where });
+  const { jobs, total } = await listUserJobs(userId, { status, page, limit });
 
   return NextResponse.json({
     success: true,
-    jobs,
+    jobs: jobs.map(serializeJob),
     pagination: {
       page,
       limit,
@@ -399,15 +731,11 @@ async function getUserJobs(userId: string, searchParams: URLSearchParams) {
 }
 
 async function getUserStats(userId: string) {
-  const stats = await prisma.processingJob.groupBy({
-    by: ['status'],
-    where: { userId },
-    _count: { status: true }
-  });
+  const counts = await countJobsByStatus(userId);
 
-  const totalJobs = stats.reduce((sum, stat) => sum + stat._count.status, 0);
-  const completedJobs = stats.find(s => s.status === 'completed')?._count.status || 0;
-  const failedJobs = stats.find(s => s.status === 'failed')?._count.status || 0;
+  const totalJobs = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const completedJobs = counts.completed || 0;
+  const failedJobs = counts.failed || 0;
 
   return NextResponse.json({
     success: true,
@@ -421,32 +749,31 @@ async function getUserStats(userId: string) {
 }
 
 async function getUserCredits(userId: string) {
-  // This would integrate with your billing system
+  const credits = await getCreditBalance(userId);
+
   return NextResponse.json({
     success: true,
-    credits: {
-      available: 100,
-      used: 25,
-      total: 125
-    }
+    credits
   });
 }
 
-async function getQueueStatus() {
-  const queueStats = await prisma.processingJob.groupBy({
-    by: ['status'],
-    _count: { status: true }
-  });
+async function getQueueStatus(userId: string) {
+  const [counts, { position, estimatedWaitTime }] = await Promise.all([
+    countJobsByStatus(),
+    estimateNewJobWait(userId)
+  ]);
 
-  const queued = queueStats.find(s => s.status === 'queued')?._count.status || 0;
-  const processing = queueStats.find(s => s.status === 'processing')?._count.status || 0;
+  const queued = counts.queued || 0;
+  const processing = counts.processing || 0;
 
   return NextResponse.json({
     success: true,
     queue: {
       queued,
       processing,
-      estimatedWaitTime: queued * 30 // 30 seconds per job estimate
+      // Where a new normal-priority job from this user would land; wait in seconds
+      position,
+      estimatedWaitTime: Math.round(estimatedWaitTime / 1000)
     }
   });
 }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import {
+  getUserMetadataPolicy,
+  setUserMetadataPolicy,
+  METADATA_POLICIES,
+} from '@/lib/image-metadata';
+import type { MetadataPolicy } from '@/lib/image-metadata';
+
+// The EXIF/XMP/IPTC policy applied to the user's uploads when they are confirmed
+export async function GET() {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      metadataPolicy: await getUserMetadataPolicy(userId),
+      policies: METADATA_POLICIES
+    });
+  } catch (error) {
+    console.error('Metadata policy Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Change the policy; applies to uploads confirmed from now on
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const policy = body?.metadataPolicy;
+    if (!METADATA_POLICIES.includes(policy)) {
+      return NextResponse.json({
+        success: false,
+        error: `metadataPolicy must be one of: ${METADATA_POLICIES.join(', ')}`,
+        code: 'INVALID_METADATA_POLICY'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      metadataPolicy: await setUserMetadataPolicy(userId, policy as MetadataPolicy)
+    });
+  } catch (error) {
+    console.error('Metadata policy Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { completeMultipartUpload, getMultipartUpload } from '@/lib/multipart-upload';
+import { AppError } from '@/types';
+
+// Assemble the uploaded parts once they are all in, verifying size, checksum and content,
+// and strip the metadata the owner's policy doesn't keep
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const upload = await getMultipartUpload(params.fileId, userId);
+    if (!upload) {
+      return NextResponse.json({
+        success: false,
+        error: 'Upload not found',
+        code: 'UPLOAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const file = await completeMultipartUpload(upload.file, upload.session);
+    const metadata = file.metadata as { metadataPolicy?: string; removedMetadata?: string[] } | null;
+
+    return NextResponse.json({
+      success: true,
+      fileId: file.id,
+      filename: file.filename,
+      fileUrl: file.url,
+      size: file.size,
+      checksum: file.checksum,
+      thumbnails: file.thumbnails,
+      metadata: {
+        metadataPolicy: metadata?.metadataPolicy,
+        removedMetadata: metadata?.removedMetadata
+      }
+    });
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode < 500) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Multipart complete Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
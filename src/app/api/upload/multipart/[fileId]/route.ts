@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import {
+  abortMultipartUpload,
+  getMultipartProgress,
+  getMultipartUpload,
+  getPartUploadUrls
+} from '@/lib/multipart-upload';
+import { AppError } from '@/types';
+
+// Progress of an upload, with fresh URLs for the parts still missing so it can be resumed.
+// ?parts=1,3 re-signs specific parts instead.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const upload = await getMultipartUpload(params.fileId, userId);
+    if (!upload) {
+      return NextResponse.json({
+        success: false,
+        error: 'Upload not found',
+        code: 'UPLOAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { session } = upload;
+    const progress = await getMultipartProgress(session);
+    const requested = request.nextUrl.searchParams.get('parts');
+    const parts = await getPartUploadUrls(
+      session,
+      requested ? requested.split(',').map(Number) : progress.missingParts
+    );
+
+    return NextResponse.json({
+      success: true,
+      fileId: upload.file.id,
+      partSize: session.partSize,
+      partCount: session.partCount,
+      uploadedParts: progress.uploadedParts.map(({ partNumber, size }) => ({ partNumber, size })),
+      missingParts: progress.missingParts,
+      uploadedBytes: progress.uploadedBytes,
+      parts,
+      expiresAt: session.expiresAt
+    });
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode < 500) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Multipart status Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Abort the upload and discard the parts sent so far
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const upload = await getMultipartUpload(params.fileId, userId).catch((error) => {
+      // Expired uploads are discarded as soon as they are looked up
+      if (error instanceof AppError && error.code === 'UPLOAD_EXPIRED') return null;
+      throw error;
+    });
+    if (!upload || !(await abortMultipartUpload(upload.file, upload.session))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Upload not found',
+        code: 'UPLOAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: upload.file.id,
+      status: 'aborted'
+    });
+  } catch (error) {
+    console.error('Multipart abort Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { rateLimit } from '@/lib/ratelimit';
+import { initiateMultipartUpload, validateMultipartRequest } from '@/lib/multipart-upload';
+import { AppError } from '@/types';
+
+const RATE_LIMIT_UPLOAD = parseInt(process.env.RATE_LIMIT_UPLOAD || '20');
+const RATE_LIMIT_WINDOW = parseInt(process.env.RATE_LIMIT_WINDOW || '900000'); // 15 minutes
+
+// Start a multipart upload and return presigned URLs for every part
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const rateLimitResult = await rateLimit.check(userId, 'upload', {
+      max: RATE_LIMIT_UPLOAD,
+      window: RATE_LIMIT_WINDOW,
+      burst: 3,
+    });
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rate limit exceeded. Please try again later.',
+        code: 'RATE_LIMIT_EXCEEDED'
+      }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const { fileName, fileType, fileSize, checksum } = validateMultipartRequest(body);
+    const folder = typeof body.folder === 'string' && /^[a-z0-9-]+$/.test(body.folder)
+      ? body.folder
+      : 'uploads';
+
+    const { file, session, parts } = await initiateMultipartUpload({
+      userId,
+      fileName,
+      fileType,
+      fileSize,
+      checksum,
+      folder,
+      metadata: body.metadata && typeof body.metadata === 'object' ? body.metadata : {}
+    });
+
+    return NextResponse.json({
+      success: true,
+      fileId: file.id,
+      filename: file.filename,
+      partSize: session.partSize,
+      partCount: session.partCount,
+      parts,
+      expiresAt: session.expiresAt
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode < 500) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Multipart upload Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
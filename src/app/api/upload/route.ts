@@ -5,11 +5,18 @@ import { existsSync } from 'fs';
 import sharp from 'sharp';
 import { auth } from '@clerk/nextjs';
 import { headers } from 'next/headers';
-import { S3Client, PutObjectCommand, HeadObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { prisma } from '@/lib/prisma';
 import crypto from 'crypto';
 import { rateLimit } from '@/lib/ratelimit';
+import { createAuditLog } from '@/lib/audit';
+import { checkUserLimits, updateUserUsage, getStorageUsage, getStoragePlan, STORAGE_LIMITS } from '@/lib/limits';
+import { getThumbnailUrls } from '@/lib/image-delivery';
+import { getStorage, STAGING_PREFIX } from '@/lib/storage';
+import { validateFileContent, findEmbeddedPayloads } from '@/lib/file-inspection';
+import { applyMetadataPolicy, getUserMetadataPolicy } from '@/lib/image-metadata';
+import { computePerceptualHash, findSimilarUpload } from '@/lib/dedupe';
+import { scanUpload, requiresQuarantine, quarantineUpload, getScanSizeLimit } from '@/lib/malware-scan';
+import { abortMultipartUpload } from '@/lib/multipart-upload';
 
 // Enhanced configuration
 const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '52428800'); // 50MB
@@ -104,16 +111,6 @@ interface SecurityScanResult {
   scanId: string;
 }
 
-// S3/R2 Client
-const s3Client = new S3Client({
-  region: process.env.STORAGE_REGION || 'auto',
-  endpoint: process.env.STORAGE_ENDPOINT,
-  credentials: {
-    accessKeyId: process.env.STORAGE_KEY!,
-    secretAccessKey: process.env.STORAGE_SECRET!,
-  },
-});
-
 // Rate limiting (imported from @/lib/ratelimit)
 // Removed duplicate local definition
 
@@ -355,12 +352,15 @@ async function handleSingleUpload(
     const basePath = `${folder}/${userId}/${new Date().getFullYear()}/${new Date().getMonth() + 1}`;
     const filename = `${basePath}/${timestamp}-${fileId}.${fileExtension}`;
 
-    // Prepare upload configuration
-    const uploadConfig = {
-      Bucket: process.env.STORAGE_BUCKET!,
-      Key: filename,
-      ContentType: validation.detectedType!,
-      Metadata: {
+    // Generate presigned upload URL; the client uploads to a staging key and PATCH
+    // writes the inspected bytes to the final one, so later PUTs never reach it
+    const storage = getStorage();
+    const uploadUrl = await storage.getSignedUrl(`${STAGING_PREFIX}${filename}`, {
+      method: 'PUT',
+      expiresIn: 3600,
+      contentType: validation.detectedType!,
+      contentLength: fileSize,
+      metadata: {
         userId,
         fileId,
         originalName: validation.sanitizedName!,
@@ -370,19 +370,12 @@ async function handleSingleUpload(
         compressionLevel: compressionLevel.toString(),
         ...metadata,
       },
-      Tagging: tags.length > 0 ? tags.map(tag => `${tag}=true`).join('&') : undefined,
-      ...(expiresAt && { Expires: new Date(expiresAt) }),
-      ...(isPublic ? { ACL: 'public-read' } : {}),
-    };
-
-    // Generate presigned URL
-    const command = new PutObjectCommand(uploadConfig);
-    const uploadUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
+      tags,
+      public: isPublic,
+    });
 
-    // Prepare file URLs
-    const fileUrl = isPublic 
-      ? `${process.env.STORAGE_PUBLIC_URL}/${filename}`
-      : `${process.env.STORAGE_ENDPOINT}/${process.env.STORAGE_BUCKET}/${filename}`;
+    // Private objects are only reachable through signed URLs
+    const fileUrl = storage.getPublicUrl(filename);
 
     // Process upload with secure handler
     const processingResult = await secureUploadHandler.processUpload(
@@ -416,7 +409,7 @@ async function handleSingleUpload(
     }
 
     // Generate enhanced thumbnail URLs
-    const thumbnails = generateThumbnails ? await generateThumbnailUrlsEnhanced(filename, fileExtension) : [];
+    const thumbnails = generateThumbnails ? generateThumbnailUrlsEnhanced(filename, validation.detectedType!) : [];
 
     // Create comprehensive file record in database
     await prisma.file.create({
@@ -445,13 +438,14 @@ async function handleSingleUpload(
           securityScore: securityScan.riskScore,
           ...metadata,
         },
-        status: 'completed',
+        // Completed once the uploaded bytes pass inspection (PATCH)
+        status: 'pending',
         uploadedAt: new Date(),
       },
     });
 
-    // Update user storage usage
-    await updateUserStorageUsage(userId, fileSize);
+    // Reserve the storage; released again if the upload is rejected
+    await updateUserUsage(userId, fileSize);
 
     // Track enhanced upload analytics
     await trackUploadAnalytics({
@@ -505,6 +499,8 @@ async function handleSingleUpload(
         processingTime: Date.now() - startTime,
         timestamp: new Date().toISOString(),
         expiresAt: new Date(Date.now() + 3600000).toISOString(), // 1 hour
+        // PATCH /api/upload with the fileId once the file is uploaded
+        status: 'pending',
         securityScore: securityScan.riskScore,
         optimizations: ['memory_optimized', 'security_scanned', 'performance_tuned'],
       },
@@ -595,7 +591,7 @@ async function handleBatchUpload(
 
     // Calculate total size
     const totalSize = files.reduce((sum, file) => sum + file.fileSize, 0);
-    const limitsCheck = await checkUserLimits(userId, totalSize);
+    const limitsCheck = await checkUserLimits(userId, totalSize, files.length);
     
     if (!limitsCheck.allowed) {
       return NextResponse.json({
@@ -812,17 +808,29 @@ export async function GET(request: NextRequest) {
     const action = url.searchParams.get('action');
 
     switch (action) {
-      case 'usage':
+      case 'usage': {
+        const { userId } = auth();
+        if (!userId) {
+          return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+          );
+        }
+
+        const plan = await getStoragePlan(userId);
+        const usage = await getStorageUsage(userId);
+
         return NextResponse.json({
           success: true,
           usage: {
-            storageUsed: 0,
-            storageLimit: MAX_FILE_SIZE * 10,
-            filesCount: 0,
-            filesLimit: 100,
-            plan: 'free',
+            storageUsed: usage.bytesUsed,
+            storageLimit: STORAGE_LIMITS[plan].storage,
+            filesCount: usage.fileCount,
+            filesLimit: STORAGE_LIMITS[plan].files,
+            plan,
           },
         });
+      }
       default:
         return NextResponse.json(
           { success: false, error: 'Method not allowed' },
@@ -838,8 +846,230 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Confirm a direct upload: inspect the staged bytes and publish them to the final key, or reject them
+export async function PATCH(request: NextRequest) {
+  // Set once the upload is claimed, so a failure hands it back to the owner as pending
+  let claimed: string | null = null;
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { fileId } = await request.json();
+    if (!fileId) {
+      return NextResponse.json(
+        { success: false, error: 'File ID required' },
+        { status: 400 }
+      );
+    }
+
+    const file = await prisma.file.findFirst({
+      where: { id: fileId, userId, status: 'pending' },
+    });
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const storage = getStorage();
+    const stagedKey = `${STAGING_PREFIX}${file.filename}`;
+    const staged = await storage.head(stagedKey);
+    if (!staged) {
+      return NextResponse.json(
+        { success: false, error: 'File has not been uploaded yet', code: 'UPLOAD_NOT_RECEIVED' },
+        { status: 409 }
+      );
+    }
+
+    // The quota was reserved for the declared size, so nothing else is read or published
+    if (staged.size !== file.size) {
+      await storage.delete(stagedKey);
+      return NextResponse.json({
+        success: false,
+        error: `Uploaded file is ${staged.size} bytes but ${file.size} were declared`,
+        code: 'SIZE_MISMATCH'
+      }, { status: 422 });
+    }
+
+    // Claimed so concurrent confirmations, deletes and expiry cannot act on the same upload
+    const claim = await prisma.file.updateMany({
+      where: { id: file.id, status: 'pending' },
+      data: { status: 'processing' },
+    });
+    if (claim.count !== 1) {
+      return NextResponse.json(
+        { success: false, error: 'File is being updated, try again', code: 'FILE_BUSY' },
+        { status: 409 }
+      );
+    }
+    claimed = file.id;
+
+    const content = await storage.get(stagedKey);
+    if (!content) {
+      await prisma.file.update({ where: { id: file.id }, data: { status: 'pending' } });
+      return NextResponse.json(
+        { success: false, error: 'File has not been uploaded yet', code: 'UPLOAD_NOT_RECEIVED' },
+        { status: 409 }
+      );
+    }
+
+    // Flagged (or unscannable) uploads are kept aside for review instead of being deleted
+    const malwareScan = await scanUpload(content);
+    if (requiresQuarantine(malwareScan)) {
+      await quarantineUpload(file, content, malwareScan, stagedKey);
+      await updateUserUsage(userId, -file.size, -1);
+
+      await logSecurityEvent('upload_quarantined', {
+        userId,
+        fileId: file.id,
+        scanner: malwareScan.scanner,
+        status: malwareScan.status,
+        signature: malwareScan.signature,
+        error: malwareScan.error,
+      });
+
+      return NextResponse.json({
+        success: false,
+        error: malwareScan.status === 'infected'
+          ? 'File contains malware'
+          : 'File could not be scanned and has been held for review',
+        code: malwareScan.status === 'infected' ? 'MALWARE_DETECTED' : 'SCAN_FAILED',
+        metadata: {
+          fileId: file.id,
+          status: 'quarantined',
+          signature: malwareScan.signature,
+        },
+      }, { status: 422 });
+    }
+
+    const headersList = headers();
+    const validation = await validateFileEnhanced({
+      fileName: file.originalName,
+      fileType: file.mimeType,
+      fileSize: file.size,
+      userId,
+      content,
+    });
+    const securityScan = await performSecurityScanEnhanced({
+      fileName: file.originalName,
+      fileType: file.mimeType,
+      fileSize: file.size,
+      userId,
+      ip: request.ip || headersList.get('x-forwarded-for') || 'unknown',
+      userAgent: headersList.get('user-agent') || 'unknown',
+      content,
+    });
+
+    if (!validation.valid || !securityScan.safe) {
+      await storage.delete(stagedKey);
+      await prisma.file.update({
+        where: { id: file.id },
+        data: { status: 'rejected' },
+      });
+      await updateUserUsage(userId, -file.size, -1);
+
+      if (!securityScan.safe) {
+        await logSecurityEvent('upload_security_threat', {
+          userId,
+          fileId: file.id,
+          threats: securityScan.threats,
+          riskScore: securityScan.riskScore,
+          scanId: securityScan.scanId,
+        });
+      }
+
+      return NextResponse.json({
+        success: false,
+        error: validation.valid ? 'File failed security scan' : validation.error,
+        code: validation.valid ? 'SECURITY_THREAT_DETECTED' : validation.code,
+        metadata: {
+          fileId: file.id,
+          detectedType: validation.detectedType,
+          threats: securityScan.threats,
+          riskScore: securityScan.riskScore,
+          scanId: securityScan.scanId,
+        },
+      }, { status: 422 });
+    }
+
+    // Only what the owner's metadata policy allows is kept in storage
+    const fileMetadata = (file.metadata as Record<string, unknown> | null) ?? {};
+    const privacy = await applyMetadataPolicy(content, await getUserMetadataPolicy(userId));
+    // Only the bytes inspected here are written to the served key
+    await storage.put(file.filename, privacy.buffer, {
+      contentType: file.mimeType,
+      metadata: { userId, fileId: file.id, originalName: file.originalName },
+    });
+    await storage.delete(stagedKey);
+    if (privacy.removed.length) {
+      await updateUserUsage(userId, privacy.buffer.length - file.size, 0);
+    }
+
+    // Flag re-uploads of a photo the user already has
+    const perceptualHash = await computePerceptualHash(privacy.buffer);
+    const duplicateOf = await findSimilarUpload(userId, perceptualHash, file.id);
+
+    await prisma.file.update({
+      where: { id: file.id },
+      data: {
+        status: 'completed',
+        size: privacy.buffer.length,
+        checksum: crypto.createHash('sha256').update(privacy.buffer).digest('hex'),
+        perceptualHash,
+        metadata: {
+          ...fileMetadata,
+          metadataPolicy: privacy.policy,
+          removedMetadata: privacy.removed,
+          scan: { ...malwareScan },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      fileId: file.id,
+      fileUrl: file.url,
+      status: 'completed',
+      metadata: {
+        size: privacy.buffer.length,
+        metadataPolicy: privacy.policy,
+        removedMetadata: privacy.removed,
+        keptMetadata: privacy.kept,
+        malwareScan: malwareScan.status,
+        ...(duplicateOf && { duplicateOf }),
+      },
+    });
+  } catch (error) {
+    console.error('PATCH upload error:', error);
+    if (claimed) {
+      await prisma.file
+        .updateMany({ where: { id: claimed, status: 'processing' }, data: { status: 'pending' } })
+        .catch((revertError) => console.error('PATCH upload revert error:', revertError));
+    }
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     const url = new URL(request.url);
     const fileId = url.searchParams.get('fileId');
 
@@ -850,6 +1080,46 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const file = await prisma.file.findFirst({
+      where: { id: fileId, userId, status: { notIn: ['deleted', 'rejected'] } },
+    });
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    // Unfinished multipart uploads are aborted, which drops their parts and reservation
+    const aborted = file.status === 'uploading' && (await abortMultipartUpload(file));
+
+    // Claimed so concurrent deletes, confirmations and expiry release the usage once;
+    // uploads still being assembled or confirmed are left to finish first
+    const busy = file.status === 'completing' || file.status === 'processing';
+    const claimed = !busy && await prisma.file.updateMany({
+      where: { id: file.id, status: aborted ? 'aborted' : file.status },
+      data: { status: 'deleted', deletedAt: new Date() },
+    });
+    if (!claimed || claimed.count !== 1) {
+      return NextResponse.json(
+        { success: false, error: 'File is being updated, try again', code: 'FILE_BUSY' },
+        { status: 409 }
+      );
+    }
+
+    // Pending uploads only ever reached their staging key
+    if (!aborted) {
+      await getStorage().delete(
+        file.status === 'pending' ? `${STAGING_PREFIX}${file.filename}` : file.filename
+      );
+    }
+
+    // Release the storage this file was counted against
+    if (file.status === 'pending' || file.status === 'completed') {
+      await updateUserUsage(userId, -file.size, -1);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'File deleted successfully',
@@ -874,7 +1144,6 @@ const BLOCKED_EXTENSIONS = [
 
 const MAX_FILENAME_LENGTH = 255;
 const VIRUS_SCAN_TIMEOUT = 30000; // 30 seconds
-const THUMBNAIL_SIZES = [150, 300, 600, 1200];
 
 // File type categories
 const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
@@ -889,14 +1158,16 @@ function calculateProcessingMemory(fileSize: number, processingMode: string): nu
   return Math.min(baseMemory * fileSizeMultiplier, BASE_MEMORY_LIMIT * 0.25);
 }
 
+// Checks the declared details; once the bytes are in storage, pass content to check those too
 async function validateFileEnhanced(params: {
   fileName: string;
   fileType: string;
   fileSize: number;
   checksum?: string;
   userId: string;
+  content?: Buffer;
 }): Promise<FileValidationResult> {
-  const { fileName, fileType, fileSize, checksum, userId } = params;
+  const { fileName, fileType, fileSize, checksum, userId, content } = params;
 
   // File size validation
   if (fileSize > MAX_FILE_SIZE) {
@@ -915,6 +1186,16 @@ async function validateFileEnhanced(params: {
     };
   }
 
+  // Anything the scanner refuses would be quarantined once uploaded
+  const scanLimit = getScanSizeLimit();
+  if (scanLimit && fileSize > scanLimit) {
+    return {
+      valid: false,
+      error: `File size exceeds the malware scanning limit of ${scanLimit / (1024 * 1024)}MB`,
+      code: 'FILE_TOO_LARGE'
+    };
+  }
+
   // File type validation
   if (!ALLOWED_TYPES.includes(fileType)) {
     return {
@@ -944,6 +1225,26 @@ async function validateFileEnhanced(params: {
     };
   }
 
+  if (content) {
+    if (content.length !== fileSize) {
+      return {
+        valid: false,
+        error: `Uploaded ${content.length} bytes, expected ${fileSize}`,
+        code: 'SIZE_MISMATCH'
+      };
+    }
+
+    const contentCheck = await validateFileContent(content, { fileType, fileName: sanitizedName });
+    if (!contentCheck.valid) {
+      return {
+        valid: false,
+        error: contentCheck.error,
+        code: contentCheck.code,
+        detectedType: contentCheck.detectedType
+      };
+    }
+  }
+
   return {
     valid: true,
     sanitizedName,
@@ -951,6 +1252,7 @@ async function validateFileEnhanced(params: {
   };
 }
 
+// Heuristics on the declared file and, when given, its bytes; malware scanning runs once the upload lands (PATCH)
 async function performSecurityScanEnhanced(params: {
   fileName: string;
   fileType: string;
@@ -958,8 +1260,9 @@ async function performSecurityScanEnhanced(params: {
   userId: string;
   ip: string;
   userAgent: string;
+  content?: Buffer;
 }): Promise<SecurityScanResult> {
-  const { fileName, fileType, fileSize, userId, ip, userAgent } = params;
+  const { fileName, fileType, fileSize, content } = params;
   const scanId = `scan_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
   
   let riskScore = 0;
@@ -987,13 +1290,11 @@ async function performSecurityScanEnhanced(params: {
     }
   }
 
-  // IP reputation check (mock implementation)
-  if (ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.')) {
-    // Private IP - lower risk
-    riskScore -= 5;
-  } else {
-    // Public IP - standard risk
-    riskScore += 5;
+  // Polyglots: images that also carry scripts, archives or executables
+  if (content) {
+    const payloads = findEmbeddedPayloads(content, fileType);
+    riskScore += payloads.length * 50;
+    threats.push(...payloads);
   }
 
   return {
@@ -1010,94 +1311,38 @@ async function checkUserLimitsEnhanced(userId: string, fileSize: number): Promis
   currentUsage?: number;
   limit?: number;
 }> {
-  try {
-    // Get user's current storage usage
-    const userFiles = await prisma.file.aggregate({
-      where: { userId },
-      _sum: { size: true },
-      _count: true,
-    });
-
-    const currentUsage = userFiles._sum.size || 0;
-    const fileCount = userFiles._count || 0;
-    
-    // Get user's plan limits (mock implementation)
-    const userLimits = {
-      maxStorage: 10 * 1024 * 1024 * 1024, // 10GB default
-      maxFiles: 10000,
-      maxFileSize: MAX_FILE_SIZE,
+  // Check individual file size limit
+  if (fileSize > MAX_FILE_SIZE) {
+    return {
+      allowed: false,
+      reason: 'File size limit exceeded',
+      currentUsage: fileSize,
+      limit: MAX_FILE_SIZE,
     };
+  }
 
-    // Check storage limit
-    if (currentUsage + fileSize > userLimits.maxStorage) {
-      return {
-        allowed: false,
-        reason: 'Storage limit exceeded',
-        currentUsage,
-        limit: userLimits.maxStorage,
-      };
-    }
-
-    // Check file count limit
-    if (fileCount >= userLimits.maxFiles) {
-      return {
-        allowed: false,
-        reason: 'File count limit exceeded',
-        currentUsage: fileCount,
-        limit: userLimits.maxFiles,
-      };
-    }
-
-    // Check individual file size limit
-    if (fileSize > userLimits.maxFileSize) {
-      return {
-        allowed: false,
-        reason: 'File size limit exceeded',
-        currentUsage: fileSize,
-        limit: userLimits.maxFileSize,
-      };
-    }
-
-    return { allowed: true };
-  } catch (error) {
-    console.error('Error checking user limits:', error);
+  // Plan storage and file-count quotas
+  const limitsCheck = await checkUserLimits(userId, fileSize);
+  if (!limitsCheck.allowed && limitsCheck.reason === 'File count limit exceeded') {
     return {
       allowed: false,
-      reason: 'Unable to verify user limits',
+      reason: limitsCheck.reason,
+      currentUsage: limitsCheck.fileCount,
+      limit: limitsCheck.fileLimit,
     };
   }
+
+  return limitsCheck;
 }
 
-async function generateThumbnailUrlsEnhanced(filename: string, extension: string): Promise<string[]> {
-  const thumbnails: string[] = [];
-  
-  if (IMAGE_TYPES.some(type => type.includes(extension))) {
-    for (const size of THUMBNAIL_SIZES) {
-      const thumbnailPath = filename.replace(`.${extension}`, `_thumb_${size}.${extension}`);
-      thumbnails.push(`${process.env.STORAGE_PUBLIC_URL}/${thumbnailPath}`);
-    }
-  }
-  
-  return thumbnails;
+function generateThumbnailUrlsEnhanced(key: string, mimeType: string): string[] {
+  return IMAGE_TYPES.includes(mimeType) ? getThumbnailUrls(key) : [];
 }
 
 // Logging Functions
 async function logSecurityEvent(event: string, data: any): Promise<void> {
   console.log(`[SECURITY] ${event}:`, JSON.stringify(data, null, 2));
-  
-  try {
-    await prisma.auditLog.create({
-      data: {
-        action: event,
-        details: data,
-        timestamp: new Date(),
-        severity: 'warning',
-        category: 'security',
-      },
-    });
-  } catch (error) {
-    console.error('Failed to log security event:', error);
-  }
+  await createAuditLog(event, { ...data, category: 'security', severity: 'warning' });
 }
 
 async function logUploadError(data: {
@@ -1110,21 +1355,7 @@ async function logUploadError(data: {
   systemLoad?: string;
 }): Promise<void> {
   console.error(`[UPLOAD_ERROR] ${data.uploadId}:`, data);
-  
-  try {
-    await prisma.auditLog.create({
-      data: {
-        action: 'upload_error',
-        details: data,
-        timestamp: new Date(),
-        severity: 'error',
-        category: 'upload',
-        userId: data.userId,
-      },
-    });
-  } catch (error) {
-    console.error('Failed to log upload error:', error);
-  }
+  await createAuditLog('upload_error', { ...data, category: 'upload', severity: 'error' });
 }
 
 async function logUploadSuccess(data: {
@@ -1137,19 +1368,5 @@ async function logUploadSuccess(data: {
   processingMode: string;
 }): Promise<void> {
   console.log(`[UPLOAD_SUCCESS] ${data.uploadId}:`, data);
-  
-  try {
-    await prisma.auditLog.create({
-      data: {
-        action: 'upload_success',
-        details: data,
-        timestamp: new Date(),
-        severity: 'info',
-        category: 'upload',
-        userId: data.userId,
-      },
-    });
-  } catch (error) {
-    console.error('Failed to log upload success:', error);
-  }
+  await createAuditLog('upload_success', { ...data, category: 'upload', severity: 'info' });
 }
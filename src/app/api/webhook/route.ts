@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyWebhookSignature, handleSuccessfulPayment } from '@/lib/stripe';
 import { prisma } from '@/lib/prisma';
+import { grantPlanCredits } from '@/lib/credits';
 import Stripe from 'stripe';
 
 // Types for webhook processing
@@ -241,23 +242,9 @@ async function trackWebhookAnalytics(data: {
 }
 
 // Business logic helpers
-async function updateUserCredits(userId: string, plan: string): Promise<void> {
-  const creditMap: Record<string, number> = {
-    basic: 100,
-    pro: 500,
-    premium: 1000
-  };
-
-  const credits = creditMap[plan] || 0;
-  
+async function updateUserCredits(userId: string, plan: string, paymentIntentId: string): Promise<void> {
   try {
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        credits: { increment: credits },
-        plan: plan
-      }
-    });
+    await grantPlanCredits(userId, plan, paymentIntentId);
   } catch (error) {
     console.error('Failed to update user credits:', error);
   }
@@ -586,7 +573,7 @@ async function handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent, event
   });
 
   // Update user credits/subscription
-  await updateUserCredits(userId, paymentIntent.metadata.plan || 'basic');
+  await updateUserCredits(userId, paymentIntent.metadata.plan || 'basic', paymentIntent.id);
 
   // Track analytics
   await trackPaymentEvent('payment_succeeded', {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { redeliverWebhook } from '@/lib/webhooks';
+import { AppError } from '@/types';
+
+// Queue a past delivery again with its original payload
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { deliveryId: string } }
+) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const delivery = await redeliverWebhook(userId, params.deliveryId);
+
+    return NextResponse.json({
+      success: true,
+      delivery
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Webhook redelivery Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
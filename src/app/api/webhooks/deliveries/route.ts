@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+// Delivery log for the account's webhooks, optionally filtered by job or status
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const { deliveries, total } = await listWebhookDeliveries(userId, {
+      jobId: searchParams.get('jobId'),
+      status: searchParams.get('status'),
+      page,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Webhook deliveries GET Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  deleteWebhookEndpoint,
+} from '@/lib/webhooks';
+import { AppError } from '@/types';
+
+// List the account's webhook endpoints
+export async function GET() {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const endpoints = await listWebhookEndpoints(userId);
+
+    return NextResponse.json({
+      success: true,
+      endpoints
+    });
+  } catch (error) {
+    console.error('Webhook endpoints GET Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Register an endpoint; the signing secret is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { url, events } = await request.json();
+
+    if (!url) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required field: url',
+        code: 'MISSING_FIELDS'
+      }, { status: 400 });
+    }
+
+    const endpoint = await createWebhookEndpoint(userId, url, events);
+
+    return NextResponse.json({
+      success: true,
+      endpoint: {
+        id: endpoint.id,
+        url: endpoint.url,
+        events: endpoint.events,
+        active: endpoint.active,
+        createdAt: endpoint.createdAt,
+        secret: endpoint.secret
+      }
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, { status: error.statusCode });
+    }
+
+    console.error('Webhook endpoints POST Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Remove an endpoint
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const endpointId = new URL(request.url).searchParams.get('id');
+    const deleted = endpointId ? await deleteWebhookEndpoint(userId, endpointId) : false;
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook endpoint not found',
+        code: 'ENDPOINT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook endpoints DELETE Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { headers } from 'next/headers';
 import Stripe from 'stripe';
 import { prisma } from '@/lib/prisma';
+import { grantPlanCredits } from '@/lib/credits';
 import { auth } from '@clerk/nextjs';
 import crypto from 'crypto';
 
@@ -370,6 +371,13 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session, webhook
       },
     };
 
+    // Grant the plan's credits, keyed by payment intent so replays don't double-grant.
+    // Granted before the payment is recorded: a replay after a failed grant would otherwise
+    // stop at the duplicate payment and never reach it
+    if (userId) {
+      await grantPlanCredits(userId, planType, paymentIntentId || session.id);
+    }
+
     await prisma.payment.create({
       data: {
         userId: paymentData.userId,
@@ -395,9 +403,6 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session, webhook
       await handleSubscriptionFromCheckout(subscription, paymentData, webhookId);
     }
 
-    // Update user credits/limits based on plan
-    await updateUserLimits(paymentData.userId, paymentData.planType, paymentData.amount);
-
     // Send confirmation notifications
     await sendPaymentConfirmation(paymentData);
 
@@ -614,8 +619,21 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
       },
     });
 
+    // Renewals grant the plan's credits again, keyed by invoice so replays don't double-grant;
+    // the first invoice was paid through checkout, which granted them already
+    if (subscriptionId && invoice.billing_reason !== 'subscription_create') {
+      const subscription = await prisma.subscription.findUnique({
+        where: { stripeSubscriptionId: subscriptionId },
+      });
+      if (subscription?.userId) {
+        await grantPlanCredits(subscription.userId, subscription.planType, invoice.id);
+      }
+    }
+
   } catch (error) {
     console.error('Error handling payment succeeded:', error);
+    // Rethrown so Stripe retries and the renewal's credits are not lost
+    throw error;
   }
 }
 
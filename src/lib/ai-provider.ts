@@ -0,0 +1,30 @@
+/**
+ * AI Provider Interface
+ * Contract shared by every backend that can run the image pipeline
+ */
+
+import type { ImageType } from '@/types';
+
+export type AIOperation = 'generate' | 'removeBackground' | 'enhanceFace' | 'upscale';
+
+export type AIProviderName = 'replicate' | 'local';
+
+export interface GenerateOptions {
+  imageUrl: string;
+  imageType: ImageType;
+  prompt?: string;
+  negativePrompt?: string;
+  numOutputs?: number;
+  guidanceScale?: number;
+  numInferenceSteps?: number;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  // Model identifier (and version) used for each operation
+  models: Record<AIOperation, string>;
+  generate(options: GenerateOptions): Promise<string[]>;
+  removeBackground(imageUrl: string): Promise<string>;
+  enhanceFace(imageUrl: string): Promise<string>;
+  upscale(imageUrl: string, scale?: number): Promise<string>;
+}
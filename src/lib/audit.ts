@@ -1,3 +1,4 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
 
 /**
@@ -8,19 +9,17 @@ export async function createAuditLog(
   metadata?: Record<string, any>
 ): Promise<void> {
   try {
-    // Create audit log entry in database
-    // This is a simplified implementation
-    await prisma.$executeRaw`
-      INSERT INTO "AuditLog" (event, metadata, "createdAt")
-      VALUES (${event}, ${JSON.stringify(metadata)}, NOW())
-      ON CONFLICT DO NOTHING
-    `.catch(() => {
-      // If table doesn't exist, just log to console
-      console.log('Audit Log:', event, metadata);
+    await prisma.auditLog.create({
+      data: {
+        event,
+        category: typeof metadata?.category === 'string' ? metadata.category : undefined,
+        userId: typeof metadata?.userId === 'string' ? metadata.userId : undefined,
+        metadata: metadata as Prisma.InputJsonValue | undefined,
+      },
     });
   } catch (error) {
     // Fallback to console logging if database fails
+    console.error('Failed to write audit log:', error);
     console.log('Audit Log:', event, metadata);
   }
 }
-
@@ -0,0 +1,174 @@
+/**
+ * Batches
+ * Studio jobs submitted together: aggregate status and a single archive of their results
+ */
+
+import type { Batch, Job, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { serializeJob, TERMINAL_JOB_STATUSES } from './jobs';
+import type { JobResult, JobStatus } from './jobs';
+import { loadImageBuffer } from './local-ai-provider';
+import { createZipStream } from './zip';
+import type { ZipEntry } from './zip';
+import type { ProcessingSettings } from '@/types';
+
+export type BatchStatus =
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'cancelled';
+
+export type BatchWithJobs = Batch & { jobs: Job[] };
+
+/**
+ * Create an empty batch; jobs are linked as they are queued
+ */
+export async function createBatch(data: {
+  id: string;
+  userId: string;
+  imageType: string;
+  settings: ProcessingSettings;
+}): Promise<Batch> {
+  return prisma.batch.create({
+    data: { ...data, settings: data.settings as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Get one of a user's batches with its jobs in submission order
+ */
+export async function getBatch(batchId: string, userId: string): Promise<BatchWithJobs | null> {
+  return prisma.batch.findFirst({
+    where: { id: batchId, userId },
+    include: { jobs: { orderBy: { createdAt: 'asc' } } },
+  });
+}
+
+/**
+ * Mark a batch whose submission failed part-way; its queued jobs are cancelled separately
+ */
+export async function failBatch(batchId: string): Promise<Batch> {
+  return prisma.batch.update({ where: { id: batchId }, data: { status: 'failed' } });
+}
+
+/**
+ * Aggregate status of a batch from its jobs
+ */
+export function getBatchStatus(batch: BatchWithJobs): BatchStatus {
+  if (batch.status === 'failed') return 'failed';
+
+  const statuses = batch.jobs.map((job) => job.status as JobStatus);
+  const count = (status: JobStatus) => statuses.filter((s) => s === status).length;
+
+  // Jobs are linked as they are queued, so an empty batch is still being submitted
+  if (statuses.length > 0 && statuses.every((status) => TERMINAL_JOB_STATUSES.includes(status))) {
+    if (count('completed') === statuses.length) return 'completed';
+    if (count('completed') > 0) return 'partial';
+    return count('cancelled') === statuses.length ? 'cancelled' : 'failed';
+  }
+
+  return statuses.every((status) => status === 'queued') ? 'queued' : 'processing';
+}
+
+/**
+ * Check whether every job in a batch has finished
+ */
+export function isBatchFinished(batch: BatchWithJobs): boolean {
+  if (batch.status === 'failed') return true;
+  return (
+    batch.jobs.length > 0 &&
+    batch.jobs.every((job) => TERMINAL_JOB_STATUSES.includes(job.status as JobStatus))
+  );
+}
+
+/**
+ * Shape a batch and its aggregate progress for API responses
+ */
+export function serializeBatch(batch: BatchWithJobs) {
+  const { jobs } = batch;
+  const counts: Record<string, number> = {};
+  jobs.forEach((job) => (counts[job.status] = (counts[job.status] || 0) + 1));
+
+  // Finished jobs count as done whatever their outcome
+  const progress =
+    jobs.length > 0
+      ? Math.round(
+          jobs.reduce(
+            (sum, job) =>
+              sum + (TERMINAL_JOB_STATUSES.includes(job.status as JobStatus) ? 100 : job.progress),
+            0
+          ) / jobs.length
+        )
+      : 0;
+
+  const finished = isBatchFinished(batch);
+  const completedAt = finished
+    ? jobs.reduce<Date | null>(
+        (latest, job) =>
+          job.completedAt && (!latest || job.completedAt > latest) ? job.completedAt : latest,
+        null
+      )
+    : null;
+
+  return {
+    id: batch.id,
+    imageType: batch.imageType,
+    status: getBatchStatus(batch),
+    progress,
+    total: jobs.length,
+    counts,
+    createdAt: batch.createdAt,
+    completedAt,
+    jobs: jobs.map(serializeJob),
+  };
+}
+
+// Archive entry name: submission order, original file name and output number
+function archiveEntryName(index: number, job: Job, output: number, url: string): string {
+  const input = job.input as { originalFilename?: string } | null;
+  const base = (input?.originalFilename || job.id)
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^a-zA-Z0-9_-]/g, '_');
+  const extension = new URL(url).pathname.split('.').pop() || 'jpg';
+
+  return `${String(index + 1).padStart(3, '0')}-${base}-${output + 1}.${extension}`;
+}
+
+async function* batchArchiveEntries(batch: BatchWithJobs): AsyncGenerator<ZipEntry> {
+  for (const [index, job] of batch.jobs.entries()) {
+    const result = job.result as unknown as JobResult | null;
+    if (job.status !== 'completed' || !result) continue;
+
+    for (const [output, url] of result.processedUrls.entries()) {
+      yield { name: archiveEntryName(index, job, output, url), data: await loadImageBuffer(url) };
+    }
+  }
+}
+
+/**
+ * Stream every completed result in a batch as a ZIP archive
+ */
+export function createBatchArchive(batch: BatchWithJobs): ReadableStream<Uint8Array> {
+  const chunks = createZipStream(batchArchiveEntries(batch));
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(value));
+        }
+      } catch (error) {
+        console.error('Error building batch archive:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
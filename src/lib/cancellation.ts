@@ -0,0 +1,73 @@
+/**
+ * Job Cancellation
+ * Cancel queued or running jobs and refund the credits for steps that never ran
+ */
+
+import type { Job } from '@prisma/client';
+import { AppError } from '@/types';
+import { updateJobStatus } from './jobs';
+import type { JobType } from './jobs';
+import { removeQueuedJob, releaseUserJobs } from './queue';
+import type { ImageProcessingJobData } from './queue';
+import { refundCredits } from './credits';
+import { buildPipelineSpec } from './pipeline';
+import { getUnusedCost, clearCheckpoints } from './checkpoints';
+
+export interface CancelJobResult {
+  removedFromQueue: boolean;
+  refunded: number;
+}
+
+const MAX_CANCEL_ATTEMPTS = 3;
+
+// Credits for the pipeline steps a job has not finished; undefined refunds the whole debit
+async function getUnusedJobCost(job: Job): Promise<number | undefined> {
+  const input = job.input as Partial<ImageProcessingJobData> | null;
+
+  if (!input?.settings || !input.imageType) {
+    return undefined;
+  }
+
+  return getUnusedCost(job.id, buildPipelineSpec(input.imageType, input.settings));
+}
+
+/**
+ * Cancel a job. A worker already running it stops before its next step.
+ */
+export async function cancelJob(
+  job: Job,
+  reason: string = 'Cancelled by user'
+): Promise<CancelJobResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await updateJobStatus(job.id, 'cancelled', undefined, null, reason);
+      break;
+    } catch (error) {
+      // A worker moved the job between the status read and the guarded write
+      if (
+        error instanceof AppError &&
+        error.code === 'JOB_CONFLICT' &&
+        attempt < MAX_CANCEL_ATTEMPTS
+      ) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  const removedFromQueue = await removeQueuedJob(job.id, job.type as JobType);
+  const refunded = await refundCredits(job.id, 'job_cancelled', await getUnusedJobCost(job));
+
+  // A cancelled job never resumes. The cancel has already happened, so cleanup failures are only logged
+  await clearCheckpoints(job.id).catch((error) =>
+    console.error(`Error clearing checkpoints of cancelled job ${job.id}:`, error)
+  );
+
+  if (job.type === 'image_processing') {
+    await releaseUserJobs(job.userId).catch((error) =>
+      console.error(`Error releasing jobs held for ${job.userId}:`, error)
+    );
+  }
+
+  return { removedFromQueue, refunded };
+}
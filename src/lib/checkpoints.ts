@@ -0,0 +1,147 @@
+/**
+ * Pipeline Checkpoints
+ * Persist each step's outputs against the Job row so retries resume where they failed
+ */
+
+import { prisma } from './prisma';
+import type { AIProvider } from './ai-provider';
+import { executePipeline, remainingCost } from './pipeline';
+import type { PipelineSpec } from './pipeline';
+import { getAIProvider } from './replicate';
+import { getStorage } from './storage';
+import { loadImageBuffer } from './local-ai-provider';
+import { sniffFileType } from './file-inspection';
+
+export interface ResumePoint {
+  stepIndex: number;
+  images: string[];
+}
+
+// Step outputs are copied here; checkpoint rows only hold their storage keys
+const CHECKPOINT_PREFIX = 'checkpoints/';
+
+function checkpointKey(jobId: string, stepIndex: number, outputIndex: number): string {
+  return `${CHECKPOINT_PREFIX}${jobId}/${String(stepIndex).padStart(2, '0')}-${outputIndex}`;
+}
+
+/**
+ * Record the outputs of a completed step
+ */
+export async function saveCheckpoint(
+  jobId: string,
+  stepIndex: number,
+  stepName: string,
+  outputs: string[]
+): Promise<void> {
+  // Provider URLs expire and data URLs hold whole images, so the bytes go to storage
+  const storage = getStorage();
+  const keys = await Promise.all(
+    outputs.map(async (url, index) => {
+      const buffer = await loadImageBuffer(url);
+      const key = checkpointKey(jobId, stepIndex, index);
+      await storage.put(key, buffer, {
+        contentType: sniffFileType(buffer) ?? 'application/octet-stream',
+      });
+      return key;
+    })
+  );
+
+  await prisma.jobCheckpoint.upsert({
+    where: { jobId_stepIndex: { jobId, stepIndex } },
+    create: { jobId, stepIndex, stepName, outputs: keys },
+    update: { stepName, outputs: keys, createdAt: new Date() },
+  });
+}
+
+// Last checkpoint still matching the spec
+async function findLatestCheckpoint(jobId: string, spec: PipelineSpec) {
+  const checkpoints = await prisma.jobCheckpoint.findMany({
+    where: { jobId },
+    orderBy: { stepIndex: 'desc' },
+  });
+
+  return checkpoints.find(
+    (checkpoint) => spec.steps[checkpoint.stepIndex]?.name === checkpoint.stepName
+  );
+}
+
+/**
+ * Find the last successful step for a job and load its outputs as data URLs.
+ * Checkpoints that no longer match the spec are ignored.
+ */
+export async function getResumePoint(
+  jobId: string,
+  spec: PipelineSpec
+): Promise<ResumePoint | undefined> {
+  const latest = await findLatestCheckpoint(jobId, spec);
+  if (!latest) {
+    return undefined;
+  }
+
+  const storage = getStorage();
+  const buffers = await Promise.all((latest.outputs as string[]).map((key) => storage.get(key)));
+  if (buffers.some((buffer) => !buffer)) {
+    // Start over rather than resume from partial outputs
+    console.warn(`Job ${jobId} checkpoint ${latest.stepIndex} is missing stored outputs`);
+    return undefined;
+  }
+
+  return {
+    stepIndex: latest.stepIndex,
+    images: buffers.map(
+      (buffer) =>
+        `data:${sniffFileType(buffer!) ?? 'application/octet-stream'};base64,${buffer!.toString('base64')}`
+    ),
+  };
+}
+
+/**
+ * Remove all checkpoints for a job, along with their stored outputs
+ */
+export async function clearCheckpoints(jobId: string): Promise<void> {
+  const storage = getStorage();
+  const objects = await storage.list(`${CHECKPOINT_PREFIX}${jobId}/`);
+  await Promise.all(objects.map((object) => storage.delete(object.key)));
+
+  await prisma.jobCheckpoint.deleteMany({ where: { jobId } });
+}
+
+/**
+ * Credits for the steps a job has not completed yet
+ */
+export async function getUnusedCost(jobId: string, spec: PipelineSpec): Promise<number> {
+  const latest = await findLatestCheckpoint(jobId, spec);
+  return remainingCost(spec, latest?.stepIndex);
+}
+
+/**
+ * Run a pipeline for a job, resuming from its last checkpoint
+ */
+export async function runCheckpointedPipeline(
+  jobId: string,
+  spec: PipelineSpec,
+  imageUrl: string,
+  options: {
+    provider?: AIProvider;
+    onProgress?: (completedSteps: number, totalSteps: number, step: string) => Promise<void>;
+    shouldStop?: () => Promise<boolean>;
+  } = {}
+): Promise<string[]> {
+  const { provider = getAIProvider(), onProgress, shouldStop } = options;
+  const resumeFrom = await getResumePoint(jobId, spec);
+
+  if (resumeFrom) {
+    console.warn(
+      `Job ${jobId} resuming after step ${resumeFrom.stepIndex} (${spec.steps[resumeFrom.stepIndex].name})`
+    );
+  }
+
+  return executePipeline(spec, imageUrl, provider, {
+    resumeFrom,
+    shouldStop,
+    onStepComplete: async (stepIndex, step, images) => {
+      await saveCheckpoint(jobId, stepIndex, step.name, images);
+      await onProgress?.(stepIndex + 1, spec.steps.length, step.name);
+    },
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * ClamAV Scanner
+ * Malware scanner speaking the clamd INSTREAM protocol over TCP
+ */
+
+import net from 'net';
+import type { MalwareScanner, ScanVerdict } from './malware-scan';
+
+// Small chunks keep clamd's memory use flat
+const CHUNK_SIZE = 64 * 1024;
+const DEFAULT_TIMEOUT = 30000; // ms
+// clamd's default StreamMaxLength; raise both together in clamd.conf and CLAMAV_MAX_SIZE
+const DEFAULT_MAX_SIZE = 25 * 1024 * 1024;
+
+function connectionOptions() {
+  return {
+    host: process.env.CLAMAV_HOST || '127.0.0.1',
+    port: parseInt(process.env.CLAMAV_PORT || '3310'),
+    timeout: parseInt(process.env.CLAMAV_TIMEOUT || String(DEFAULT_TIMEOUT)),
+  };
+}
+
+/**
+ * Read clamd's reply to INSTREAM, e.g. "stream: OK" or "stream: Eicar-Test-Signature FOUND".
+ * Throws for errors so the upload is held rather than passed.
+ */
+export function parseReply(reply: string): ScanVerdict {
+  const text = reply.replace(/\0/g, '').trim();
+  if (/^stream: OK$/.test(text)) {
+    return { infected: false };
+  }
+
+  const found = /^stream: (.+) FOUND$/.exec(text);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+
+  if (/size limit exceeded/i.test(text)) {
+    throw new Error(
+      'clamd: stream exceeds StreamMaxLength; CLAMAV_MAX_SIZE is above the clamd.conf setting'
+    );
+  }
+
+  throw new Error(`clamd: ${text || 'empty reply'}`);
+}
+
+// Stream the content to clamd and collect its reply
+function instream(content: Buffer): Promise<string> {
+  const { host, port, timeout } = connectionOptions();
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(timeout);
+
+    socket.on('connect', () => {
+      // The z prefix asks for a null-terminated reply
+      socket.write('zINSTREAM\0');
+      for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+        const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        socket.write(length);
+        socket.write(chunk);
+      }
+      // A zero-length chunk ends the stream
+      socket.write(Buffer.alloc(4));
+    });
+    socket.on('data', (data) => {
+      chunks.push(data);
+      if (data.includes(0)) {
+        socket.end();
+      }
+    });
+    socket.on('timeout', () => socket.destroy(new Error(`clamd timed out after ${timeout}ms`)));
+    socket.on('error', reject);
+    socket.on('close', (hadError) => {
+      if (!hadError) {
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      }
+    });
+  });
+}
+
+export const clamavScanner: MalwareScanner = {
+  name: 'clamav',
+
+  get maxSize() {
+    return parseInt(process.env.CLAMAV_MAX_SIZE || String(DEFAULT_MAX_SIZE));
+  },
+
+  async scan(content) {
+    return parseReply(await instream(content));
+  },
+};
@@ -1,4 +1,11 @@
-// Cloudinary utilities stub
+// Cloudinary-compatible helpers backed by our own storage and image delivery
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { getDeliveryUrl } from './image-delivery';
+import { getStorage } from './storage';
+import { loadImageBuffer } from './local-ai-provider';
+import type { TransformParams } from './image-delivery';
+
 export interface CloudinaryUploadResult {
   public_id: string;
   secure_url: string;
@@ -8,6 +15,15 @@ export interface CloudinaryUploadResult {
   bytes: number;
 }
 
+const CROP_MODES: Record<string, TransformParams['fit']> = {
+  fill: 'cover',
+  crop: 'cover',
+  fit: 'inside',
+  limit: 'inside',
+  pad: 'contain',
+  scale: 'fill',
+};
+
 class CloudinaryService {
   private apiKey: string;
   private apiSecret: string;
@@ -19,6 +35,7 @@ class CloudinaryService {
     this.cloudName = process.env.CLOUDINARY_CLOUD_NAME || '';
   }
 
+  // Stored through the configured storage backend; public_id is the key within the folder
   async uploadImage(
     file: Buffer | string,
     options: {
@@ -27,26 +44,57 @@ class CloudinaryService {
       transformation?: any;
     } = {}
   ): Promise<CloudinaryUploadResult> {
-    // Stub implementation - replace with actual Cloudinary SDK
-    console.log('Cloudinary upload:', { options });
-    
+    const buffer = typeof file === 'string' ? await loadImageBuffer(file) : file;
+    const { width = 0, height = 0, format = 'jpeg' } = await sharp(buffer).metadata();
+    const publicId = [options.folder, options.public_id || crypto.randomUUID()]
+      .filter(Boolean)
+      .join('/');
+
+    const storage = getStorage();
+    await storage.put(publicId, buffer, { contentType: `image/${format}` });
+
     return {
-      public_id: stub_,
-      secure_url: "https://res.cloudinary.com//image/upload/v1/stub_image.jpg",
-      width: 1024,
-      height: 1024,
-      format: 'jpg',
-      bytes: 150000
+      public_id: publicId,
+      secure_url: storage.getPublicUrl(publicId),
+      width,
+      height,
+      format: format === 'jpeg' ? 'jpg' : format,
+      bytes: buffer.length
     };
   }
 
   async deleteImage(publicId: string): Promise<boolean> {
-    console.log('Cloudinary delete:', publicId);
+    await getStorage().delete(publicId);
     return true;
   }
 
+  // Served through our own delivery route; publicId is the storage key and transformations
+  // use Cloudinary's syntax, e.g. "w_300,h_200,c_fill,f_auto,q_80"
   getOptimizedUrl(publicId: string, transformations?: string): string {
-    return "https://res.cloudinary.com//image/upload//";
+    const params: Partial<TransformParams> = {};
+
+    for (const part of transformations?.split(/[,/]/) ?? []) {
+      const [name, value] = [part.slice(0, part.indexOf('_')), part.slice(part.indexOf('_') + 1)];
+      switch (name) {
+        case 'w':
+          params.width = Number(value);
+          break;
+        case 'h':
+          params.height = Number(value);
+          break;
+        case 'c':
+          params.fit = CROP_MODES[value] ?? 'inside';
+          break;
+        case 'f':
+          params.format = value === 'jpg' ? 'jpeg' : (value as TransformParams['format']);
+          break;
+        case 'q':
+          if (value !== 'auto') params.quality = Number(value);
+          break;
+      }
+    }
+
+    return getDeliveryUrl(publicId, params, { absolute: true });
   }
 }
 
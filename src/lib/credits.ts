@@ -0,0 +1,190 @@
+/**
+ * Credit Ledger
+ * Append-only record of plan grants, studio job debits and refunds
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { AppError } from '@/types';
+
+export type CreditEntryType = 'grant' | 'debit' | 'refund';
+
+// Credits granted per plan purchase
+export const PLAN_CREDITS: Record<string, number> = {
+  basic: 100,
+  pro: 500,
+  vip: 1000,
+};
+
+export interface CreditBalance {
+  available: number;
+  used: number;
+  total: number;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+async function readBalance(
+  client: Prisma.TransactionClient,
+  userId: string
+): Promise<CreditBalance> {
+  const totals = await client.creditLedgerEntry.groupBy({
+    by: ['type'],
+    where: { userId },
+    _sum: { amount: true },
+  });
+
+  const sumOf = (type: CreditEntryType) => totals.find((t) => t.type === type)?._sum.amount || 0;
+
+  const granted = sumOf('grant');
+  const debited = -sumOf('debit');
+  const refunded = sumOf('refund');
+
+  return {
+    available: granted - debited + refunded,
+    used: debited - refunded,
+    total: granted,
+  };
+}
+
+/**
+ * Get a user's current credit balance
+ */
+export async function getCreditBalance(userId: string): Promise<CreditBalance> {
+  return readBalance(prisma, userId);
+}
+
+/**
+ * Grant credits to a user. Repeated grants for the same reference are ignored.
+ */
+export async function grantCredits(
+  userId: string,
+  amount: number,
+  reason: string,
+  referenceId?: string,
+  metadata?: Prisma.InputJsonObject
+): Promise<boolean> {
+  if (amount <= 0) {
+    return false;
+  }
+
+  try {
+    await prisma.creditLedgerEntry.create({
+      data: { userId, type: 'grant', amount, reason, referenceId, metadata },
+    });
+    return true;
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return false;
+    }
+    console.error('Error granting credits:', error);
+    throw new Error('Failed to grant credits');
+  }
+}
+
+/**
+ * Grant the credits included with a plan purchase
+ */
+export async function grantPlanCredits(
+  userId: string,
+  plan: string,
+  paymentReference: string
+): Promise<boolean> {
+  return grantCredits(userId, PLAN_CREDITS[plan] || 0, 'plan_purchase', paymentReference, {
+    plan,
+  });
+}
+
+/**
+ * Debit credits for a job. Throws INSUFFICIENT_CREDITS when the balance is too low.
+ */
+export async function debitCredits(
+  userId: string,
+  amount: number,
+  referenceId: string,
+  metadata?: Prisma.InputJsonObject
+): Promise<CreditBalance> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const { available } = await readBalance(tx, userId);
+
+        if (available < amount) {
+          throw new AppError('Insufficient credits', 'INSUFFICIENT_CREDITS', 402);
+        }
+
+        await tx.creditLedgerEntry.create({
+          data: {
+            userId,
+            type: 'debit',
+            amount: -amount,
+            reason: 'studio_job',
+            referenceId,
+            metadata,
+          },
+        });
+
+        return readBalance(tx, userId);
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    console.error('Error debiting credits:', error);
+    throw new Error('Failed to debit credits');
+  }
+}
+
+/**
+ * Refund the debit recorded for a job, or part of it. Safe to call more than once.
+ */
+export async function refundCredits(
+  referenceId: string,
+  reason: string = 'job_failed',
+  amount?: number
+): Promise<number> {
+  try {
+    const debit = await prisma.creditLedgerEntry.findUnique({
+      where: { type_referenceId: { type: 'debit', referenceId } },
+    });
+
+    // Never refund more than was charged
+    const refund = Math.min(-(debit?.amount ?? 0), amount ?? Infinity);
+    if (!debit || refund <= 0) {
+      return 0;
+    }
+
+    await prisma.creditLedgerEntry.create({
+      data: {
+        userId: debit.userId,
+        type: 'refund',
+        amount: refund,
+        reason,
+        referenceId,
+      },
+    });
+
+    return refund;
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return 0;
+    }
+    console.error('Error refunding credits:', error);
+    throw new Error('Failed to refund credits');
+  }
+}
+
+/**
+ * List a user's most recent ledger entries
+ */
+export async function getCreditHistory(userId: string, limit: number = 20) {
+  return prisma.creditLedgerEntry.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
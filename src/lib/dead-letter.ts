@@ -0,0 +1,179 @@
+/**
+ * Dead-Letter Store
+ * Jobs that exhausted their retries, kept with full context for inspection and replay
+ */
+
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getJob, getJobTransitions } from './jobs';
+import { addImageProcessingJob } from './queue';
+import type { ImageProcessingJobData } from './queue';
+import type { ProcessingSettings } from '@/types';
+
+export type DeadLetterStatus = 'open' | 'replayed' | 'discarded';
+
+export interface ReplayResult {
+  id: string;
+  jobId?: string;
+  error?: string;
+}
+
+export interface DeadLetterAttempt {
+  attempt: number;
+  error: string;
+  failedAt: Date;
+}
+
+/**
+ * Record a job that failed for the last time. Never throws; losing the record must not
+ * mask the original failure.
+ */
+export async function moveToDeadLetter(jobId: string, error: unknown): Promise<void> {
+  try {
+    const [job, transitions] = await Promise.all([getJob(jobId), getJobTransitions(jobId)]);
+    if (!job) {
+      return;
+    }
+
+    // Each retry and the final failure left a transition carrying its error
+    const attempts: DeadLetterAttempt[] = transitions
+      .filter((transition) => ['retrying', 'failed'].includes(transition.toStatus))
+      .map((transition, index) => ({
+        attempt: index + 1,
+        error: transition.reason || 'Unknown error',
+        failedAt: transition.createdAt,
+      }));
+
+    const data = {
+      userId: job.userId,
+      type: job.type,
+      input: (job.input ?? {}) as Prisma.InputJsonValue,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      attempts: attempts as unknown as Prisma.InputJsonValue,
+    };
+
+    await prisma.deadLetterJob.upsert({
+      where: { jobId },
+      create: { jobId, ...data },
+      update: { ...data, status: 'open', failedAt: new Date(), resolvedAt: null, resolvedBy: null },
+    });
+  } catch (recordError) {
+    console.error('Error moving job to dead-letter store:', recordError);
+  }
+}
+
+/**
+ * List dead-lettered jobs, newest first
+ */
+export async function listDeadLetters(
+  options: { status?: string | null; type?: string | null; page?: number; limit?: number } = {}
+) {
+  const { status = 'open', type, page = 1, limit = 20 } = options;
+  const where: Prisma.DeadLetterJobWhereInput = {
+    ...(status && { status }),
+    ...(type && { type }),
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.deadLetterJob.findMany({
+      where,
+      orderBy: { failedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.deadLetterJob.count({ where }),
+  ]);
+
+  return { entries, total };
+}
+
+/**
+ * Get a single dead-lettered job
+ */
+export async function getDeadLetter(id: string) {
+  return prisma.deadLetterJob.findUnique({ where: { id } });
+}
+
+/**
+ * Queue open entries again as new jobs, optionally overriding processing settings.
+ * Replays are not charged; the original debit was refunded when the job failed.
+ */
+export async function replayDeadLetters(
+  ids: string[],
+  adminId: string,
+  settings?: ProcessingSettings
+): Promise<ReplayResult[]> {
+  const entries = await prisma.deadLetterJob.findMany({
+    where: { id: { in: ids }, status: 'open' },
+  });
+
+  const results: ReplayResult[] = [];
+  for (const entry of entries) {
+    if (entry.type !== 'image_processing') {
+      results.push({ id: entry.id, error: `Replay is not supported for ${entry.type} jobs` });
+      continue;
+    }
+
+    const input = entry.input as unknown as ImageProcessingJobData;
+    const jobId = crypto.randomUUID();
+
+    // Claimed before queueing so concurrent replays of the same entry queue it only once
+    const claimed = await prisma.deadLetterJob.updateMany({
+      where: { id: entry.id, status: 'open' },
+      data: {
+        status: 'replayed',
+        replayedJobId: jobId,
+        resolvedAt: new Date(),
+        resolvedBy: adminId,
+      },
+    });
+    if (claimed.count !== 1) {
+      results.push({ id: entry.id, error: 'Entry not found or already resolved' });
+      continue;
+    }
+
+    try {
+      await addImageProcessingJob(
+        {
+          ...input,
+          settings: settings ? { ...input.settings, ...settings } : input.settings,
+          // Replays stand alone rather than changing a finished batch's totals
+          batchId: undefined,
+        },
+        'normal',
+        jobId
+      );
+      results.push({ id: entry.id, jobId });
+    } catch (error) {
+      console.error(`Error replaying dead-letter entry ${entry.id}:`, error);
+      // Reopen the entry so it can be replayed again
+      await prisma.deadLetterJob.updateMany({
+        where: { id: entry.id, replayedJobId: jobId },
+        data: { status: 'open', replayedJobId: null, resolvedAt: null, resolvedBy: null },
+      });
+      results.push({ id: entry.id, error: 'Failed to queue replay' });
+    }
+  }
+
+  // Entries that don't exist or were already resolved
+  const found = new Set(entries.map((entry) => entry.id));
+  ids
+    .filter((id) => !found.has(id))
+    .forEach((id) => results.push({ id, error: 'Entry not found or already resolved' }));
+
+  return results;
+}
+
+/**
+ * Mark open entries as discarded
+ */
+export async function discardDeadLetters(ids: string[], adminId: string): Promise<number> {
+  const { count } = await prisma.deadLetterJob.updateMany({
+    where: { id: { in: ids }, status: 'open' },
+    data: { status: 'discarded', resolvedAt: new Date(), resolvedBy: adminId },
+  });
+
+  return count;
+}
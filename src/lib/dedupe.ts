@@ -0,0 +1,188 @@
+/**
+ * Duplicate Detection
+ * Perceptual hashes of uploads and outputs, used to spot images a user already processed
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import type { Job } from '@prisma/client';
+import { prisma } from './prisma';
+import { getJob } from './jobs';
+import { buildPipelineSpec, stepApplies } from './pipeline';
+import { normalizeFormat } from './renditions';
+import { loadImageBuffer } from './local-ai-provider';
+import type { ImageProcessingJobData } from './queue';
+
+// reuse: return the earlier result without charging; warn: process anyway but flag it; off: skip the check
+export type DedupeMode = 'reuse' | 'warn' | 'off';
+
+export const DEDUPE_MODES: DedupeMode[] = ['reuse', 'warn', 'off'];
+
+export interface DuplicateMatch {
+  job: Job;
+  processedImageIds: string[];
+  // Differing bits between the two source hashes; 0 is the same picture
+  distance: number;
+}
+
+// Hashes this close are the same photo re-encoded, resized or stripped of metadata
+export const DUPLICATE_DISTANCE = 5;
+// Most recent candidates compared; hashes can't be range-queried so the scan is bounded
+const DUPLICATE_SCAN_LIMIT = 500;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash (dHash) as 16 hex characters
+ */
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  // Orientation and transparency are normalised so the same photo hashes the same however it was saved
+  const pixels = await sharp(buffer)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | BigInt(left < right ? 1 : 0);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of bits that differ between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+}
+
+/**
+ * Identifies everything that shapes a job's outputs besides the source image
+ */
+export function getSettingsKey(
+  data: Pick<ImageProcessingJobData, 'imageType' | 'settings' | 'processingOptions'>
+): string {
+  const spec = data.settings ? buildPipelineSpec(data.imageType, data.settings) : undefined;
+  const { quality, format, watermark, renditions = [] } = data.processingOptions;
+
+  const settings = {
+    imageType: data.imageType,
+    steps: spec
+      ? spec.steps
+          .filter((step) => stepApplies(step, spec))
+          .map(({ name, params }) => ({ name, params }))
+      : null,
+    quality,
+    format: normalizeFormat(format),
+    watermark,
+    renditions: [...renditions].sort(),
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+/**
+ * Perceptual hash of a job's source, read from the upload record when there is one
+ */
+export async function getSourceHash(userId: string, imageUrl: string): Promise<string | null> {
+  const file = await prisma.file.findFirst({
+    where: { userId, url: imageUrl, status: 'completed', perceptualHash: { not: null } },
+    select: { perceptualHash: true },
+  });
+  if (file?.perceptualHash) {
+    return file.perceptualHash;
+  }
+
+  try {
+    return await computePerceptualHash(await loadImageBuffer(imageUrl));
+  } catch (error) {
+    // The job reports unreadable images itself; dedupe just doesn't apply
+    console.warn('Could not hash source image:', error);
+    return null;
+  }
+}
+
+/**
+ * The user's earlier completed job for a near-identical source with the same settings
+ */
+export async function findDuplicateJob(
+  userId: string,
+  sourceHash: string,
+  settingsKey: string
+): Promise<DuplicateMatch | null> {
+  const candidates = await prisma.processedImage.findMany({
+    where: { userId, settingsKey, status: 'completed', jobId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    take: DUPLICATE_SCAN_LIMIT,
+    select: { id: true, jobId: true, sourceHash: true },
+  });
+
+  // Closest source first; a job's outputs all share its source hash
+  const matches = candidates
+    .filter((candidate) => candidate.sourceHash)
+    .map((candidate) => ({
+      ...candidate,
+      distance: hammingDistance(sourceHash, candidate.sourceHash!),
+    }))
+    .filter((candidate) => candidate.distance <= DUPLICATE_DISTANCE)
+    .sort((a, b) => a.distance - b.distance);
+
+  for (const match of matches) {
+    const job = await getJob(match.jobId!);
+    if (job?.status === 'completed') {
+      return {
+        job,
+        processedImageIds: candidates
+          .filter((candidate) => candidate.jobId === job.id)
+          .map((candidate) => candidate.id),
+        distance: match.distance,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * One of the user's earlier uploads of a near-identical image
+ */
+export async function findSimilarUpload(
+  userId: string,
+  hash: string,
+  excludeFileId?: string
+): Promise<{ fileId: string; url: string; distance: number } | null> {
+  const files = await prisma.file.findMany({
+    where: {
+      userId,
+      status: 'completed',
+      perceptualHash: { not: null },
+      ...(excludeFileId && { id: { not: excludeFileId } }),
+    },
+    orderBy: { uploadedAt: 'desc' },
+    take: DUPLICATE_SCAN_LIMIT,
+    select: { id: true, url: true, perceptualHash: true },
+  });
+
+  let closest: { fileId: string; url: string; distance: number } | null = null;
+  for (const file of files) {
+    const distance = hammingDistance(hash, file.perceptualHash!);
+    if (distance <= DUPLICATE_DISTANCE && (!closest || distance < closest.distance)) {
+      closest = { fileId: file.id, url: file.url, distance };
+    }
+  }
+  return closest;
+}
@@ -0,0 +1,181 @@
+/**
+ * Queue ETAs
+ * Wait and processing estimates from recorded job durations, queue order and worker count
+ */
+
+import type { Job } from '@prisma/client';
+import { prisma } from './prisma';
+import { getImageWorkerCount } from './queue';
+import { jobsAheadWhere, getNewJobPosition } from './scheduler';
+
+export interface JobEta {
+  queuePosition: number;
+  estimatedWaitTime: number; // ms until a worker starts the job
+  estimatedProcessingTime: number; // ms the job itself is expected to take
+  estimatedCompletionAt: Date;
+}
+
+// Used until enough jobs have finished to learn from
+export const DEFAULT_PROCESSING_TIME = 120000;
+
+const HISTORY_WINDOW = 30 * 24 * 60 * 60 * 1000; // 30 days
+const HISTORY_SIZE = 500;
+const MIN_SAMPLES = 5;
+const STATS_TTL = 60000;
+
+export interface DurationStats {
+  byPipeline: Map<string, number>;
+  byImageType: Map<string, number>;
+  overall: number;
+}
+
+let cachedStats: (DurationStats & { loadedAt: number }) | null = null;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Median duration per group, keeping only groups with enough samples
+function medianByGroup(samples: { key: string; duration: number }[]): Map<string, number> {
+  const groups = new Map<string, number[]>();
+  samples.forEach(({ key, duration }) => groups.set(key, [...(groups.get(key) || []), duration]));
+
+  return new Map(
+    Array.from(groups)
+      .filter(([, durations]) => durations.length >= MIN_SAMPLES)
+      .map(([key, durations]) => [key, median(durations)])
+  );
+}
+
+// Recent completed job durations, refreshed at most once a minute
+async function getDurationStats(): Promise<DurationStats> {
+  if (cachedStats && Date.now() - cachedStats.loadedAt < STATS_TTL) {
+    return cachedStats;
+  }
+
+  const jobs = await prisma.job.findMany({
+    where: {
+      type: 'image_processing',
+      status: 'completed',
+      startedAt: { not: null },
+      completedAt: { gte: new Date(Date.now() - HISTORY_WINDOW) },
+    },
+    select: { pipelineKey: true, startedAt: true, completedAt: true },
+    orderBy: { completedAt: 'desc' },
+    take: HISTORY_SIZE,
+  });
+
+  cachedStats = {
+    ...summarizeDurations(
+      jobs.map((job) => ({
+        key: job.pipelineKey || '',
+        duration: job.completedAt!.getTime() - job.startedAt!.getTime(),
+      }))
+    ),
+    loadedAt: Date.now(),
+  };
+
+  return cachedStats;
+}
+
+/**
+ * Median durations per pipeline, per image type and overall, from finished jobs keyed by
+ * pipeline; groups with too few samples are left out
+ */
+export function summarizeDurations(samples: { key: string; duration: number }[]): DurationStats {
+  return {
+    byPipeline: medianByGroup(samples.filter((sample) => sample.key)),
+    byImageType: medianByGroup(
+      samples
+        .filter((sample) => sample.key)
+        .map((sample) => ({ ...sample, key: sample.key.split(':')[0] }))
+    ),
+    overall:
+      samples.length >= MIN_SAMPLES
+        ? median(samples.map((s) => s.duration))
+        : DEFAULT_PROCESSING_TIME,
+  };
+}
+
+// Most specific estimate available: same pipeline, then same image type, then any job
+function durationFor(stats: DurationStats, pipelineKey: string | null): number {
+  if (!pipelineKey) return stats.overall;
+
+  return (
+    stats.byPipeline.get(pipelineKey) ??
+    stats.byImageType.get(pipelineKey.split(':')[0]) ??
+    stats.overall
+  );
+}
+
+/**
+ * ETA for a job that has not finished. Returns null for finished jobs.
+ */
+export async function estimateJobEta(job: Job): Promise<JobEta | null> {
+  const now = Date.now();
+  const stats = await getDurationStats();
+  const processingTime = durationFor(stats, job.pipelineKey);
+
+  if (job.status === 'processing') {
+    const elapsed = job.startedAt ? now - job.startedAt.getTime() : 0;
+    return {
+      queuePosition: 0,
+      estimatedWaitTime: 0,
+      estimatedProcessingTime: processingTime,
+      estimatedCompletionAt: new Date(now + Math.max(processingTime - elapsed, 0)),
+    };
+  }
+
+  if (job.status !== 'queued' && job.status !== 'retrying') {
+    return null;
+  }
+
+  const [queuePosition, ahead, running, workers] = await Promise.all([
+    prisma.job.count({ where: jobsAheadWhere(job) }),
+    prisma.job.groupBy({
+      by: ['pipelineKey'],
+      where: { AND: [jobsAheadWhere(job), { status: { not: 'processing' } }] },
+      _count: { _all: true },
+    }),
+    prisma.job.findMany({
+      where: { type: 'image_processing', status: 'processing' },
+      select: { pipelineKey: true, startedAt: true },
+    }),
+    getImageWorkerCount(),
+  ]);
+
+  // Work queued ahead plus what running jobs still have left, shared across workers
+  const queuedWork = ahead.reduce(
+    (sum, group) => sum + group._count._all * durationFor(stats, group.pipelineKey),
+    0
+  );
+  const runningWork = running.reduce((sum, other) => {
+    const elapsed = other.startedAt ? now - other.startedAt.getTime() : 0;
+    return sum + Math.max(durationFor(stats, other.pipelineKey) - elapsed, 0);
+  }, 0);
+  const estimatedWaitTime = Math.round((queuedWork + runningWork) / workers);
+
+  return {
+    queuePosition,
+    estimatedWaitTime,
+    estimatedProcessingTime: processingTime,
+    estimatedCompletionAt: new Date(now + estimatedWaitTime + processingTime),
+  };
+}
+
+/**
+ * Wait (ms) a new normal-priority job from this user would see
+ */
+export async function estimateNewJobWait(
+  userId: string
+): Promise<{ position: number; estimatedWaitTime: number }> {
+  const [position, stats, workers] = await Promise.all([
+    getNewJobPosition(userId),
+    getDurationStats(),
+    getImageWorkerCount(),
+  ]);
+
+  return { position, estimatedWaitTime: Math.round((position * stats.overall) / workers) };
+}
@@ -0,0 +1,199 @@
+/**
+ * File Inspection
+ * Content-based checks on uploaded bytes: real file type, decodability and hidden payloads
+ */
+
+import sharp from 'sharp';
+
+export interface ContentValidationResult {
+  valid: boolean;
+  error?: string;
+  code?: string;
+  detectedType?: string;
+  width?: number;
+  height?: number;
+}
+
+// Largest accepted side; anything over MAX_DIMENSION² pixels is treated as a decompression bomb
+export const MAX_DIMENSION = 8192;
+export const MAX_PIXELS = MAX_DIMENSION * MAX_DIMENSION;
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  avif: 'image/avif',
+  heic: 'image/heic',
+};
+
+// Markup and code that has no business inside an image
+const EMBEDDED_SCRIPT = /<script|<\?php|<html|<iframe|<object|<embed|javascript:/i;
+// Ignored at the end of a file; some encoders pad with a few bytes
+const MAX_TRAILING_BYTES = 16;
+// Phone cameras append Samsung trailers, MPF and depth images after the JPEG's EOI, so
+// trailers there only count when they carry one of the payload signatures checked above
+const TRAILER_TOLERANT_TYPES = ['image/jpeg'];
+
+function startsWith(buffer: Buffer, signature: string | number[], offset = 0): boolean {
+  const bytes = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : signature;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Detect an image type from its magic bytes, or null when it isn't a supported image
+ */
+export function sniffFileType(buffer: Buffer): string | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(buffer, 'GIF87a') || startsWith(buffer, 'GIF89a')) return 'image/gif';
+  if (startsWith(buffer, 'RIFF') && startsWith(buffer, 'WEBP', 8)) return 'image/webp';
+  if (startsWith(buffer, 'BM')) return 'image/bmp';
+  if (
+    startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return 'image/tiff';
+  }
+  if (startsWith(buffer, 'ftyp', 4)) {
+    const brand = buffer.toString('latin1', 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+  return null;
+}
+
+// Bytes after the point where the format says the image ends
+function trailingBytes(buffer: Buffer, type: string): number {
+  switch (type) {
+    case 'image/png': {
+      const end = buffer.lastIndexOf(Buffer.from('IEND', 'latin1'));
+      // Chunk type plus its CRC
+      return end === -1 ? 0 : buffer.length - (end + 8);
+    }
+    case 'image/gif': {
+      const end = buffer.lastIndexOf(0x3b);
+      return end === -1 ? 0 : buffer.length - (end + 1);
+    }
+    case 'image/webp':
+      // RIFF size excludes the 8-byte header
+      return buffer.length - (buffer.readUInt32LE(4) + 8);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Signs of a polyglot: a file that is also valid as something other than an image
+ */
+export function findEmbeddedPayloads(buffer: Buffer, type: string): string[] {
+  const threats: string[] = [];
+  const content = buffer.toString('latin1');
+
+  if (EMBEDDED_SCRIPT.test(content)) {
+    threats.push('embedded_script');
+  }
+  // A local file header on its own is common in compressed data; an archive also needs its directory
+  if (content.includes('PK\x03\x04') && content.includes('PK\x05\x06')) {
+    threats.push('embedded_archive');
+  }
+  if (content.includes('%PDF-')) {
+    threats.push('embedded_pdf');
+  }
+  if (content.includes('This program cannot be run in DOS mode')) {
+    threats.push('embedded_executable');
+  }
+  if (!TRAILER_TOLERANT_TYPES.includes(type) && trailingBytes(buffer, type) > MAX_TRAILING_BYTES) {
+    threats.push('trailing_data');
+  }
+
+  return threats;
+}
+
+/**
+ * Check that uploaded bytes are the image they claim to be and decode cleanly
+ */
+export async function validateFileContent(
+  buffer: Buffer,
+  declared: { fileType: string; fileName: string }
+): Promise<ContentValidationResult> {
+  const detectedType = sniffFileType(buffer);
+  if (!detectedType) {
+    return {
+      valid: false,
+      error: 'File content is not a supported image',
+      code: 'UNSUPPORTED_CONTENT',
+    };
+  }
+
+  const declaredType = declared.fileType === 'image/jpg' ? 'image/jpeg' : declared.fileType;
+  if (declaredType !== detectedType) {
+    return {
+      valid: false,
+      error: `File content is ${detectedType}, not ${declared.fileType}`,
+      code: 'MIME_TYPE_MISMATCH',
+      detectedType,
+    };
+  }
+
+  const extension = declared.fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_TYPES[extension] !== detectedType) {
+    return {
+      valid: false,
+      error: `File extension .${extension} does not match its ${detectedType} content`,
+      code: 'EXTENSION_MISMATCH',
+      detectedType,
+    };
+  }
+
+  // Dimensions come from the header, so bombs are caught before anything is decoded
+  let width: number;
+  let height: number;
+  try {
+    const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+    width = metadata.width ?? 0;
+    height = metadata.pageHeight ?? metadata.height ?? 0;
+    if (width * height * (metadata.pages ?? 1) > MAX_PIXELS) {
+      return {
+        valid: false,
+        error: `Image is ${width}x${height}${(metadata.pages ?? 1) > 1 ? ` over ${metadata.pages} frames` : ''}, above the ${MAX_DIMENSION}x${MAX_DIMENSION} pixel limit`,
+        code: 'DECOMPRESSION_BOMB',
+        detectedType,
+      };
+    }
+  } catch (error) {
+    // Recognised by its signature but not by the decoder, e.g. BMP
+    if (error instanceof Error && error.message.includes('unsupported image format')) {
+      return {
+        valid: false,
+        error: `${detectedType} images cannot be processed`,
+        code: 'UNSUPPORTED_CONTENT',
+        detectedType,
+      };
+    }
+    return {
+      valid: false,
+      error: 'Image header could not be read',
+      code: 'CORRUPT_IMAGE',
+      detectedType,
+    };
+  }
+
+  // Decode every pixel (and frame) so truncated or corrupt data is rejected now, not mid-pipeline
+  try {
+    await sharp(buffer, { limitInputPixels: MAX_PIXELS, failOn: 'error', pages: -1 }).stats();
+  } catch {
+    return {
+      valid: false,
+      error: 'Image data could not be decoded',
+      code: 'CORRUPT_IMAGE',
+      detectedType,
+    };
+  }
+
+  return { valid: true, detectedType, width, height };
+}
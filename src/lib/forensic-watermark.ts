@@ -0,0 +1,229 @@
+/**
+ * Forensic Watermarks
+ * Invisible watermark IDs spread across the pixels so reposted outputs can be traced back
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { prisma } from './prisma';
+
+export interface ForensicWatermarkMatch {
+  watermarkId: string;
+  confidence: number; // 0-1, how clearly the payload bits stood out from the image content
+}
+
+// The pattern lives on a grid in normalized coordinates, so it survives resizing
+const GRID = 64;
+const CELLS = GRID * GRID;
+const ID_BITS = 40;
+const CHECK_BITS = 8;
+const PAYLOAD_BITS = ID_BITS + CHECK_BITS;
+// Luminance change at the centre of a cell; low enough to stay invisible
+const STRENGTH = 4;
+// Largest cell residual counted during detection
+const RESIDUAL_CLIP = 3;
+// Detection samples each cell at this many pixels per side
+const CELL_SAMPLE = 4;
+const MIN_CONFIDENCE = 0.2;
+
+const ID_PREFIX = 'wm_';
+
+// Which payload bit each cell carries and the sign it is carried with.
+// Changing the seed makes every existing output unverifiable.
+const layout = (() => {
+  const seed = crypto
+    .createHash('sha256')
+    .update(process.env.FORENSIC_WATERMARK_SEED || 'studio-nexora-forensic-v1')
+    .digest();
+  let state = seed.readUInt32BE(0);
+  const random = () => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Shuffle so each bit's cells are scattered over the whole image
+  const order = Array.from({ length: CELLS }, (_, cell) => cell);
+  for (let i = CELLS - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const bitOf = new Int32Array(CELLS);
+  const sign = new Int8Array(CELLS);
+  order.forEach((cell, index) => {
+    bitOf[cell] = index % PAYLOAD_BITS;
+    sign[cell] = random() < 0.5 ? -1 : 1;
+  });
+
+  return { bitOf, sign };
+})();
+
+function crc8(bits: number[]): number {
+  let crc = 0;
+  for (const bit of bits) {
+    const top = ((crc >> 7) & 1) ^ bit;
+    crc = ((crc << 1) & 0xff) ^ (top ? 0x07 : 0);
+  }
+  return crc;
+}
+
+function idToBits(watermarkId: string): number[] {
+  const hex = watermarkId.slice(ID_PREFIX.length);
+  if (!watermarkId.startsWith(ID_PREFIX) || !/^[0-9a-f]{10}$/.test(hex)) {
+    throw new Error(`Invalid forensic watermark ID: ${watermarkId}`);
+  }
+
+  const bits = Array.from(BigInt(`0x${hex}`).toString(2).padStart(ID_BITS, '0'), Number);
+  const check = crc8(bits);
+  return [...bits, ...Array.from({ length: CHECK_BITS }, (_, i) => (check >> (7 - i)) & 1)];
+}
+
+/**
+ * New random watermark ID; 40 bits, the payload an image can carry
+ */
+export function generateWatermarkId(): string {
+  return `${ID_PREFIX}${crypto.randomBytes(ID_BITS / 8).toString('hex')}`;
+}
+
+/**
+ * Embed a watermark ID into an image. Returns a lossless PNG, keeping any alpha channel,
+ * to encode renditions from.
+ */
+export async function embedForensicWatermark(input: Buffer, watermarkId: string): Promise<Buffer> {
+  const bits = idToBits(watermarkId);
+  const { data, info } = await sharp(input)
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  // Leave the alpha channel untouched
+  const colourChannels = Math.min(channels, 3);
+
+  const values = Array.from(
+    { length: CELLS },
+    (_, cell) => layout.sign[cell] * (bits[layout.bitOf[cell]] ? 1 : -1)
+  );
+
+  // Interpolate smoothly between cell centres; hard cell edges would show as a grid
+  const axis = (size: number) =>
+    Array.from({ length: size }, (_, position) => {
+      const u = Math.min(Math.max(((position + 0.5) * GRID) / size - 0.5, 0), GRID - 1);
+      const low = Math.min(Math.floor(u), GRID - 2);
+      const t = u - low;
+      return { low, t: t * t * (3 - 2 * t) };
+    });
+  const columns = axis(width);
+  const rows = axis(height);
+
+  for (let y = 0; y < height; y++) {
+    const { low: row, t: ty } = rows[y];
+    for (let x = 0; x < width; x++) {
+      const { low: column, t: tx } = columns[x];
+      const top = row * GRID + column;
+      const bottom = top + GRID;
+      const field =
+        (values[top] * (1 - tx) + values[top + 1] * tx) * (1 - ty) +
+        (values[bottom] * (1 - tx) + values[bottom + 1] * tx) * ty;
+      const delta = Math.round(STRENGTH * field);
+      const offset = (y * width + x) * channels;
+      for (let channel = 0; channel < colourChannels; channel++) {
+        data[offset + channel] = Math.min(255, Math.max(0, data[offset + channel] + delta));
+      }
+    }
+  }
+
+  return sharp(data, { raw: { width, height, channels } }).png().toBuffer();
+}
+
+/**
+ * Read a watermark ID back out of an image, or null when none is found
+ */
+export async function extractForensicWatermark(
+  input: Buffer
+): Promise<ForensicWatermarkMatch | null> {
+  const size = GRID * CELL_SAMPLE;
+  const pixels = await sharp(input)
+    .rotate()
+    .greyscale()
+    .resize(size, size, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  const means = new Float64Array(CELLS);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      means[Math.floor(y / CELL_SAMPLE) * GRID + Math.floor(x / CELL_SAMPLE)] +=
+        pixels[y * size + x];
+    }
+  }
+  means.forEach((sum, cell) => (means[cell] = sum / (CELL_SAMPLE * CELL_SAMPLE)));
+
+  // Compare each cell with its neighbours so the image content mostly cancels out
+  const scores = new Float64Array(PAYLOAD_BITS);
+  let energy = 0;
+  for (let row = 0; row < GRID; row++) {
+    for (let column = 0; column < GRID; column++) {
+      let neighbours = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if ((dx || dy) && r >= 0 && r < GRID && c >= 0 && c < GRID) {
+            neighbours += means[r * GRID + c];
+            count++;
+          }
+        }
+      }
+
+      // Clipped so strong edges can't outvote the rest of the image
+      const cell = row * GRID + column;
+      const residual = Math.max(
+        -RESIDUAL_CLIP,
+        Math.min(RESIDUAL_CLIP, means[cell] - neighbours / count)
+      );
+      scores[layout.bitOf[cell]] += layout.sign[cell] * residual;
+      energy += Math.abs(residual);
+    }
+  }
+
+  const bits = Array.from(scores, (score): number => (score > 0 ? 1 : 0));
+  const idBits = bits.slice(0, ID_BITS);
+  const check = bits.slice(ID_BITS).reduce((value, bit) => (value << 1) | bit, 0);
+  if (crc8(idBits) !== check) {
+    return null;
+  }
+
+  // Share of the residual energy that lines up with the decoded bits
+  const confidence = energy ? scores.reduce((sum, score) => sum + Math.abs(score), 0) / energy : 0;
+  if (confidence < MIN_CONFIDENCE) {
+    return null;
+  }
+
+  const hex = BigInt(`0b${idBits.join('')}`)
+    .toString(16)
+    .padStart(ID_BITS / 4, '0');
+
+  return { watermarkId: `${ID_PREFIX}${hex}`, confidence: Math.min(1, confidence) };
+}
+
+/**
+ * Find the processed image, and its owner, that an uploaded copy was made from
+ */
+export async function findWatermarkedImage(input: Buffer) {
+  const match = await extractForensicWatermark(input);
+  if (!match) {
+    return null;
+  }
+
+  const image = await prisma.processedImage.findUnique({
+    where: { watermarkId: match.watermarkId },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+
+  return { ...match, image };
+}
@@ -0,0 +1,294 @@
+/**
+ * Image Delivery
+ * Signed URLs for resized and re-encoded images, with derived variants cached in object storage
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { AppError } from '@/types';
+import { getStorage } from './storage';
+import { RENDITION_CONTENT_TYPES, RENDITION_EXTENSIONS } from './renditions';
+import type { RenditionFormat } from './renditions';
+
+export type DeliveryFit = 'inside' | 'cover' | 'contain' | 'fill';
+export type DeliveryFormat = RenditionFormat | 'auto';
+
+export interface TransformParams {
+  width?: number;
+  height?: number;
+  fit: DeliveryFit;
+  format: DeliveryFormat;
+  quality: number;
+}
+
+export interface DeliveredImage {
+  body: Buffer;
+  contentType: string;
+  etag: string;
+  cached: boolean;
+}
+
+export const DELIVERY_PATH = '/api/images';
+export const MAX_DIMENSION = 4000;
+export const DEFAULT_QUALITY = 80;
+export const THUMBNAIL_WIDTHS = [150, 300, 600, 1200];
+const DEFAULT_EXPIRY = 7 * 24 * 60 * 60; // seconds
+// Expiries are rounded up so URLs signed within the same hour are identical and cache well
+const EXPIRY_GRANULARITY = 60 * 60;
+
+const FITS: DeliveryFit[] = ['inside', 'cover', 'contain', 'fill'];
+const FORMATS: DeliveryFormat[] = ['auto', 'jpeg', 'png', 'webp', 'avif'];
+const VARIANT_PREFIX = 'variants/';
+
+let developmentSecret: string | null = null;
+
+// Outside production a per-process secret is used, so signed URLs stop working on restart
+function getSigningSecret(): string {
+  if (process.env.IMAGE_DELIVERY_SECRET) {
+    return process.env.IMAGE_DELIVERY_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('IMAGE_DELIVERY_SECRET is not configured');
+  }
+
+  developmentSecret ??= crypto.randomBytes(32).toString('hex');
+  return developmentSecret;
+}
+
+// Query parameters in a fixed order; only non-default values are included
+function serializeParams(params: TransformParams): URLSearchParams {
+  const query = new URLSearchParams();
+  if (params.width) query.set('w', String(params.width));
+  if (params.height) query.set('h', String(params.height));
+  if (params.fit !== 'inside') query.set('fit', params.fit);
+  if (params.format !== 'auto') query.set('fmt', params.format);
+  if (params.quality !== DEFAULT_QUALITY) query.set('q', String(params.quality));
+  return query;
+}
+
+function signature(key: string, query: string): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${key}?${query}`)
+    .digest('base64url');
+}
+
+function isValidKey(key: string): boolean {
+  return (
+    key.length > 0 &&
+    !key.startsWith('/') &&
+    !key.startsWith(VARIANT_PREFIX) &&
+    key.split('/').every((segment) => segment && segment !== '..' && segment !== '.')
+  );
+}
+
+/**
+ * Read and validate transform parameters from a delivery URL
+ */
+export function parseTransformParams(searchParams: URLSearchParams): TransformParams {
+  const dimension = (name: string) => {
+    const value = searchParams.get(name);
+    if (value === null) return undefined;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_DIMENSION) {
+      throw new AppError(
+        `${name} must be an integer between 1 and ${MAX_DIMENSION}`,
+        'INVALID_TRANSFORM',
+        400
+      );
+    }
+    return parsed;
+  };
+
+  const fit = (searchParams.get('fit') || 'inside') as DeliveryFit;
+  if (!FITS.includes(fit)) {
+    throw new AppError(`fit must be one of: ${FITS.join(', ')}`, 'INVALID_TRANSFORM', 400);
+  }
+
+  const format = (searchParams.get('fmt') || 'auto') as DeliveryFormat;
+  if (!FORMATS.includes(format)) {
+    throw new AppError(`fmt must be one of: ${FORMATS.join(', ')}`, 'INVALID_TRANSFORM', 400);
+  }
+
+  const quality = Number(searchParams.get('q') || DEFAULT_QUALITY);
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new AppError('q must be an integer between 1 and 100', 'INVALID_TRANSFORM', 400);
+  }
+
+  return { width: dimension('w'), height: dimension('h'), fit, format, quality };
+}
+
+/**
+ * Signed delivery URL for a stored object
+ */
+export function getDeliveryUrl(
+  key: string,
+  params: Partial<TransformParams> = {},
+  options: { expiresIn?: number; absolute?: boolean } = {}
+): string {
+  if (!isValidKey(key)) {
+    throw new AppError('Invalid image key', 'INVALID_IMAGE_KEY', 400);
+  }
+
+  const { expiresIn = DEFAULT_EXPIRY, absolute = false } = options;
+  const expiresAt =
+    Math.ceil((Date.now() / 1000 + expiresIn) / EXPIRY_GRANULARITY) * EXPIRY_GRANULARITY;
+
+  const query = serializeParams({
+    fit: 'inside',
+    format: 'auto',
+    quality: DEFAULT_QUALITY,
+    ...params,
+  });
+  // Refuse to sign URLs the delivery route would reject
+  parseTransformParams(query);
+  query.set('exp', String(expiresAt));
+  query.set('sig', signature(key, query.toString()));
+
+  const path = `${DELIVERY_PATH}/${key.split('/').map(encodeURIComponent).join('/')}?${query}`;
+  return absolute ? `${process.env.NEXT_PUBLIC_APP_URL || ''}${path}` : path;
+}
+
+/**
+ * Signed thumbnail URLs for a stored image; each size is rendered and cached on first request
+ */
+export function getThumbnailUrls(key: string): string[] {
+  return THUMBNAIL_WIDTHS.map((size) =>
+    getDeliveryUrl(key, { width: size, height: size }, { absolute: true })
+  );
+}
+
+/**
+ * Check a delivery URL's signature and expiry
+ */
+export function verifyDeliveryUrl(key: string, searchParams: URLSearchParams): boolean {
+  const provided = searchParams.get('sig');
+  const expiresAt = Number(searchParams.get('exp'));
+  if (!provided || !isValidKey(key) || !expiresAt || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  // Everything before sig is covered by the signature, in the order it was signed
+  const query = new URLSearchParams(
+    Array.from(searchParams.entries()).filter(([name]) => name !== 'sig')
+  ).toString();
+  const expected = Buffer.from(signature(key, query));
+  const actual = Buffer.from(provided);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Pick the output format: the requested one, or the best the client accepts
+ */
+export function negotiateFormat(
+  requested: DeliveryFormat,
+  accept: string | null,
+  hasAlpha: boolean
+): RenditionFormat {
+  if (requested !== 'auto') {
+    return requested;
+  }
+  if (accept?.includes('image/avif')) {
+    return 'avif';
+  }
+  if (accept?.includes('image/webp')) {
+    return 'webp';
+  }
+  return hasAlpha ? 'png' : 'jpeg';
+}
+
+function variantKey(key: string, params: TransformParams, format: RenditionFormat): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${key}?${serializeParams({ ...params, format })}`)
+    .digest('hex');
+  return `${VARIANT_PREFIX}${hash.slice(0, 2)}/${hash}.${RENDITION_EXTENSIONS[format]}`;
+}
+
+/**
+ * Serve a transformed image, from the variant cache when it was derived before
+ */
+export async function deliverImage(
+  key: string,
+  params: TransformParams,
+  accept: string | null
+): Promise<DeliveredImage> {
+  // Known formats can be looked up in the cache without touching the original
+  if (params.format !== 'auto') {
+    const cachedKey = variantKey(key, params, params.format);
+    const cached = await getStorage().get(cachedKey);
+    if (cached) {
+      return {
+        body: cached,
+        contentType: RENDITION_CONTENT_TYPES[params.format],
+        etag: `"${cachedKey.split('/').pop()}"`,
+        cached: true,
+      };
+    }
+  }
+
+  const original = await getStorage().get(key);
+  if (!original) {
+    throw new AppError('Image not found', 'IMAGE_NOT_FOUND', 404);
+  }
+
+  const { hasAlpha = false } = await sharp(original).metadata();
+  const format = negotiateFormat(params.format, accept, hasAlpha);
+  const cacheKey = variantKey(key, params, format);
+
+  if (params.format === 'auto') {
+    const cached = await getStorage().get(cacheKey);
+    if (cached) {
+      return {
+        body: cached,
+        contentType: RENDITION_CONTENT_TYPES[format],
+        etag: `"${cacheKey.split('/').pop()}"`,
+        cached: true,
+      };
+    }
+  }
+
+  let image = sharp(original)
+    .rotate()
+    .resize(params.width, params.height, {
+      fit: params.fit,
+      withoutEnlargement: true,
+      background: { r: 255, g: 255, b: 255, alpha: format === 'jpeg' ? 1 : 0 },
+    });
+
+  switch (format) {
+    case 'jpeg':
+      image = image
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: params.quality, progressive: true });
+      break;
+    case 'png':
+      image = image.png({ compressionLevel: 9 });
+      break;
+    case 'webp':
+      image = image.webp({ quality: params.quality });
+      break;
+    case 'avif':
+      image = image.avif({ quality: params.quality, effort: 2 });
+      break;
+  }
+
+  const body = await image.toBuffer();
+
+  // A failed cache write only costs a re-render next time
+  await getStorage()
+    .put(cacheKey, body, {
+      contentType: RENDITION_CONTENT_TYPES[format],
+      metadata: { source: key },
+    })
+    .catch((error) => console.error(`Error caching image variant ${cacheKey}:`, error));
+
+  return {
+    body,
+    contentType: RENDITION_CONTENT_TYPES[format],
+    etag: `"${cacheKey.split('/').pop()}"`,
+    cached: false,
+  };
+}
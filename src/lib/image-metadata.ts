@@ -0,0 +1,271 @@
+/**
+ * Image Metadata
+ * Privacy policies for the EXIF, XMP and IPTC data carried by uploaded photos
+ */
+
+import sharp from 'sharp';
+import { prisma } from './prisma';
+import { MAX_PIXELS } from './file-inspection';
+
+// strip-all: nothing survives, orientation is applied to the pixels instead
+// keep-orientation: only the Orientation tag
+// keep-copyright: Orientation plus the Artist and Copyright tags
+export type MetadataPolicy = 'strip-all' | 'keep-orientation' | 'keep-copyright';
+
+export const METADATA_POLICIES: MetadataPolicy[] = [
+  'strip-all',
+  'keep-orientation',
+  'keep-copyright',
+];
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = 'strip-all';
+
+export interface MetadataStripResult {
+  buffer: Buffer;
+  policy: MetadataPolicy;
+  // Field names found in the original but not in the stored file
+  removed: string[];
+  kept: string[];
+}
+
+interface ExifField {
+  name: string;
+  value?: string;
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+// Pointers to nested IFDs; their entries are reported, not the pointers themselves
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xa005;
+const ASCII_TYPE = 2;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG_NAMES: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'XResolution',
+  0x011b: 'YResolution',
+  0x0128: 'ResolutionUnit',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x013c: 'HostComputer',
+  0x0213: 'YCbCrPositioning',
+  0x8298: 'Copyright',
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9000: 'ExifVersion',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9010: 'OffsetTime',
+  0x9101: 'ComponentsConfiguration',
+  0x920a: 'FocalLength',
+  0x927c: 'MakerNote',
+  0x9286: 'UserComment',
+  0xa000: 'FlashpixVersion',
+  0xa001: 'ColorSpace',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa420: 'ImageUniqueID',
+  0xa430: 'CameraOwnerName',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+  0xa435: 'LensSerialNumber',
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  0x0000: 'GPSVersionID',
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x0010: 'GPSImgDirectionRef',
+  0x0011: 'GPSImgDirection',
+  0x001d: 'GPSDateStamp',
+};
+
+// Formats where re-encoding loses quality unless asked not to; png's quality option would quantise
+const LOSSY_FORMATS = ['jpeg', 'webp', 'heif', 'avif'];
+
+// Describe the pixels rather than the photo and are rewritten by the encoder, so never reported
+const ENCODER_FIELDS = [
+  'XResolution',
+  'YResolution',
+  'ResolutionUnit',
+  'YCbCrPositioning',
+  'ExifVersion',
+  'ComponentsConfiguration',
+  'FlashpixVersion',
+  'ColorSpace',
+  'PixelXDimension',
+  'PixelYDimension',
+];
+
+function keptFields(policy: MetadataPolicy): string[] {
+  switch (policy) {
+    case 'keep-copyright':
+      return ['Orientation', 'Artist', 'Copyright'];
+    case 'keep-orientation':
+      return ['Orientation'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * A supported policy name, or the default for anything else
+ */
+export function resolveMetadataPolicy(value: unknown): MetadataPolicy {
+  return METADATA_POLICIES.includes(value as MetadataPolicy)
+    ? (value as MetadataPolicy)
+    : DEFAULT_METADATA_POLICY;
+}
+
+/**
+ * The policy a user has chosen for their uploads
+ */
+export async function getUserMetadataPolicy(userId: string): Promise<MetadataPolicy> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { metadataPolicy: true },
+  });
+  return resolveMetadataPolicy(settings?.metadataPolicy);
+}
+
+/**
+ * Store the policy applied to a user's future uploads
+ */
+export async function setUserMetadataPolicy(
+  userId: string,
+  policy: MetadataPolicy
+): Promise<MetadataPolicy> {
+  const settings = await prisma.userSettings.upsert({
+    where: { userId },
+    create: { userId, metadataPolicy: policy },
+    update: { metadataPolicy: policy },
+  });
+  return resolveMetadataPolicy(settings.metadataPolicy);
+}
+
+/**
+ * Tags in a raw EXIF block as sharp returns it, including the nested Exif, GPS and thumbnail IFDs
+ */
+export function readExifFields(exif: Buffer): ExifField[] {
+  const tiff = exif.toString('latin1', 0, 6) === EXIF_HEADER ? exif.subarray(6) : exif;
+  if (tiff.length < 8) return [];
+
+  const little = tiff.toString('latin1', 0, 2) === 'II';
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  const fields: ExifField[] = [];
+  const visited = new Set<number>();
+
+  const walk = (offset: number, names: Record<number, string>, prefix = '') => {
+    // Malformed or looping offsets end the walk rather than throwing
+    if (!offset || visited.has(offset) || offset + 2 > tiff.length) return;
+    visited.add(offset);
+
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+
+      const tag = u16(entry);
+      if (tag === EXIF_IFD_POINTER) {
+        walk(u32(entry + 8), TAG_NAMES);
+        continue;
+      }
+      if (tag === GPS_IFD_POINTER) {
+        walk(u32(entry + 8), GPS_TAG_NAMES);
+        continue;
+      }
+      if (tag === INTEROP_IFD_POINTER) {
+        walk(u32(entry + 8), {}, 'Interop');
+        continue;
+      }
+
+      const field: ExifField = {
+        name: prefix + (names[tag] ?? `Tag0x${tag.toString(16).padStart(4, '0')}`),
+      };
+      const type = u16(entry + 2);
+      const length = u32(entry + 4) * (TYPE_SIZES[type] ?? 1);
+      if (type === ASCII_TYPE) {
+        const start = length > 4 ? u32(entry + 8) : entry + 8;
+        if (start + length <= tiff.length) {
+          field.value = tiff.toString('utf8', start, start + length).replace(/\0+$/, '');
+        }
+      }
+      fields.push(field);
+    }
+
+    // IFD1 holds the embedded thumbnail, itself a copy of the photo
+    const next = offset + 2 + count * 12;
+    if (names === TAG_NAMES && !prefix && next + 4 <= tiff.length && u32(next)) {
+      walk(u32(next), TAG_NAMES, 'Thumbnail');
+    }
+  };
+
+  walk(u32(4), TAG_NAMES);
+  return fields;
+}
+
+/**
+ * Rewrite an image so it only carries the metadata its owner's policy allows
+ */
+export async function applyMetadataPolicy(
+  buffer: Buffer,
+  policy: MetadataPolicy = DEFAULT_METADATA_POLICY
+): Promise<MetadataStripResult> {
+  const metadata = await sharp(buffer, { limitInputPixels: MAX_PIXELS }).metadata();
+  const exif = metadata.exif ? readExifFields(metadata.exif) : [];
+  const keep = keptFields(policy);
+
+  const found = [
+    ...exif.map((field) => field.name).filter((name) => !ENCODER_FIELDS.includes(name)),
+    ...(metadata.xmp ? ['XMP'] : []),
+    ...(metadata.iptc ? ['IPTC'] : []),
+    ...(metadata.comments ?? []).map((comment) => `Text:${comment.keyword}`),
+  ];
+  if (!exif.some((field) => field.name === 'Orientation') && (metadata.orientation ?? 1) > 1) {
+    found.push('Orientation');
+  }
+
+  const removed = Array.from(new Set(found.filter((name) => !keep.includes(name))));
+  const kept = Array.from(new Set(found.filter((name) => keep.includes(name))));
+  if (!removed.length) {
+    return { buffer, policy, removed, kept };
+  }
+
+  // sharp drops all metadata unless told otherwise; the colour profile is not personal data
+  let image = sharp(buffer, { limitInputPixels: MAX_PIXELS, pages: -1 }).keepIccProfile();
+  if (policy === 'strip-all') {
+    image = image.rotate();
+  } else {
+    // Orientation is carried over by the encoder; only the IFD0 strings need copying
+    const copyright: Record<string, string> = {};
+    for (const field of exif) {
+      if (keep.includes(field.name) && field.value) {
+        copyright[field.name] = field.value;
+      }
+    }
+    image = image.withExif({ IFD0: copyright });
+  }
+
+  // Originals are re-encoded close to lossless; they are the source for every later rendition
+  const format = metadata.format!;
+  const output = await image
+    .toFormat(
+      format,
+      LOSSY_FORMATS.includes(format) ? { quality: 95, chromaSubsampling: '4:4:4' } : {}
+    )
+    .toBuffer();
+  return { buffer: output, policy, removed, kept };
+}
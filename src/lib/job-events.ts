@@ -0,0 +1,197 @@
+/**
+ * Job Events
+ * Redis pub/sub fan-out of job status changes and Server-Sent Events streams for clients
+ */
+
+import { createRedisClient } from './redis';
+import type { RedisClient } from './redis';
+
+export type JobEventType = 'progress' | 'status';
+
+export interface JobEvent {
+  type: JobEventType;
+  jobId: string;
+  userId: string;
+  status: string;
+  progress?: number;
+  // Last pipeline step the worker finished
+  step?: string;
+  result?: unknown;
+  error?: string;
+  timestamp: string;
+}
+
+const CHANNEL_PREFIX = 'job-events';
+const HEARTBEAT_INTERVAL = 15000;
+
+export const jobChannel = (jobId: string) => `${CHANNEL_PREFIX}:job:${jobId}`;
+export const userChannel = (userId: string) => `${CHANNEL_PREFIX}:user:${userId}`;
+
+// One publisher and one subscriber connection per process
+let publisher: Promise<RedisClient> | null = null;
+let subscriber: Promise<RedisClient> | null = null;
+
+function getPublisher(): Promise<RedisClient> {
+  publisher ??= createRedisClient().catch((error) => {
+    publisher = null;
+    throw error;
+  });
+  return publisher;
+}
+
+function getSubscriber(): Promise<RedisClient> {
+  subscriber ??= createRedisClient().catch((error) => {
+    subscriber = null;
+    throw error;
+  });
+  return subscriber;
+}
+
+/**
+ * Publish a job event to the job's and the owner's channels.
+ * Events are best effort; a Redis outage never fails the status update.
+ */
+export async function publishJobEvent(event: JobEvent): Promise<void> {
+  try {
+    const client = await getPublisher();
+    const message = JSON.stringify(event);
+
+    await Promise.all([
+      client.publish(jobChannel(event.jobId), message),
+      client.publish(userChannel(event.userId), message),
+    ]);
+  } catch (error) {
+    console.error('Error publishing job event:', error);
+  }
+}
+
+/**
+ * Listen for events on a channel. Resolves to an unsubscribe function.
+ */
+export async function subscribeToJobEvents(
+  channel: string,
+  listener: (event: JobEvent) => void
+): Promise<() => Promise<void>> {
+  const client = await getSubscriber();
+  const handler = (message: string) => listener(JSON.parse(message) as JobEvent);
+
+  await client.subscribe(channel, handler);
+
+  return async () => {
+    await client.unsubscribe(channel, handler);
+  };
+}
+
+function formatEvent(type: string, data: unknown): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream a channel to the client as Server-Sent Events.
+ * A snapshot is sent first, then live events. The stream ends when the snapshot or an
+ * event reaches a status matching `isFinal`, or when the client disconnects.
+ */
+export function createJobEventStream(options: {
+  channel: string;
+  getSnapshot: () => Promise<Record<string, unknown>>;
+  signal: AbortSignal;
+  isFinal?: (status: string) => boolean;
+}): Response {
+  const { channel, getSnapshot, signal, isFinal } = options;
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let unsubscribe: (() => Promise<void>) | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let stream: ReadableStreamDefaultController<Uint8Array> | undefined;
+
+  // Marked closed first so nothing is enqueued on a stream the client already cancelled
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    signal.removeEventListener('abort', close);
+    try {
+      stream?.close();
+    } catch {
+      // Already closed by the consumer
+    }
+    await unsubscribe?.().catch((error) =>
+      console.error('Error unsubscribing from job events:', error)
+    );
+  };
+
+  const send = (chunk: string) => {
+    if (closed) return;
+    try {
+      stream?.enqueue(encoder.encode(chunk));
+    } catch {
+      void close();
+    }
+  };
+
+  const deliver = (event: JobEvent) => {
+    send(formatEvent(event.type, event));
+    if (event.type === 'status' && isFinal?.(event.status)) void close();
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      stream = controller;
+      if (signal.aborted) {
+        await close();
+        return;
+      }
+      signal.addEventListener('abort', close);
+      // Events that arrive before the snapshot is sent
+      let pending: JobEvent[] | null = [];
+
+      try {
+        // Subscribe before reading the snapshot so no update falls between the two
+        unsubscribe = await subscribeToJobEvents(channel, (event) =>
+          pending ? pending.push(event) : deliver(event)
+        );
+
+        // The client may have gone away while we were subscribing
+        if (closed) {
+          await unsubscribe().catch((error) =>
+            console.error('Error unsubscribing from job events:', error)
+          );
+          return;
+        }
+
+        const snapshot = await getSnapshot();
+        send(formatEvent('snapshot', snapshot));
+
+        if (typeof snapshot.status === 'string' && isFinal?.(snapshot.status)) {
+          await close();
+          return;
+        }
+      } catch (error) {
+        console.error('Error starting job event stream:', error);
+        send(formatEvent('error', { error: 'Live updates unavailable' }));
+        await close();
+        return;
+      }
+
+      const buffered = pending;
+      pending = null;
+      buffered.forEach(deliver);
+
+      // Comment lines keep proxies from closing an idle connection
+      if (!closed) heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    },
+    cancel() {
+      void close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
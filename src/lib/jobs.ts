@@ -0,0 +1,378 @@
+/**
+ * Job Service
+ * Single owner of the Job model: creation, status, progress, results and cleanup
+ */
+
+import type { Job, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { Rendition } from './renditions';
+import { publishJobEvent } from './job-events';
+import { AppError } from '@/types';
+
+export type JobType = 'image_processing' | 'watermark_generation';
+export type JobStatus = 'queued' | 'processing' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+// Allowed status transitions; terminal states have none
+export const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['processing', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'retrying', 'cancelled'],
+  retrying: ['processing', 'failed', 'cancelled'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface JobOutput {
+  processedImageId?: string;
+  processedUrl: string;
+  thumbnailUrl?: string;
+  watermarkId?: string;
+  renditions?: Rendition[];
+}
+
+// Result schema stored on every completed job
+export interface JobResult {
+  processedUrls: string[];
+  outputs: JobOutput[];
+}
+
+export interface CreateJobInput {
+  id: string;
+  userId: string;
+  type: JobType;
+  input: object;
+  batchId?: string;
+  priority?: number;
+  pipelineKey?: string;
+  // Set when the job is handed to bull straight away
+  scheduledAt?: Date;
+}
+
+/**
+ * Create a queued job
+ */
+export async function createJob({
+  id,
+  userId,
+  type,
+  input,
+  batchId,
+  priority,
+  pipelineKey,
+  scheduledAt,
+}: CreateJobInput): Promise<Job> {
+  return prisma.job.create({
+    data: {
+      id,
+      userId,
+      type,
+      batchId,
+      priority,
+      pipelineKey,
+      scheduledAt,
+      status: 'queued',
+      input: input as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Build a job result from the outputs a worker produced
+ */
+export function buildJobResult(outputs: JobOutput[]): JobResult {
+  return {
+    processedUrls: outputs.map((output) => output.processedUrl),
+    outputs,
+  };
+}
+
+/**
+ * Check whether a job may move from one status to another
+ */
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  return JOB_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export interface JobStatusUpdate {
+  progress?: number;
+  step?: string;
+  result?: JobResult | null;
+  error?: string;
+}
+
+// Validate and apply a status change, then publish it to live listeners
+async function recordJobStatus(jobId: string, status: JobStatus, update: JobStatusUpdate = {}) {
+  const { progress, step, result, error } = update;
+
+  const { userId, isProgressUpdate } = await prisma.$transaction(async (tx) => {
+    const job = await tx.job.findUnique({
+      where: { id: jobId },
+      select: { userId: true, status: true, startedAt: true },
+    });
+
+    if (!job) {
+      throw new AppError(`Job ${jobId} not found`, 'JOB_NOT_FOUND', 404);
+    }
+
+    const from = job.status as JobStatus;
+    const isProgressUpdate = from === status && !TERMINAL_JOB_STATUSES.includes(status);
+
+    if (!isProgressUpdate && !canTransition(from, status)) {
+      throw new AppError(
+        `Invalid job transition ${from} -> ${status}`,
+        'INVALID_JOB_TRANSITION',
+        409
+      );
+    }
+
+    const updateData: Prisma.JobUpdateManyMutationInput = {
+      status,
+      updatedAt: new Date(),
+    };
+
+    if (progress !== undefined) {
+      updateData.progress = progress;
+    }
+
+    if (step) {
+      updateData.currentStep = step;
+    }
+
+    if (result) {
+      updateData.result = result as unknown as Prisma.InputJsonValue;
+    }
+
+    if (error) {
+      updateData.error = error;
+    }
+
+    // startedAt marks the first time a worker picked the job up
+    if (status === 'processing' && !job.startedAt) {
+      updateData.startedAt = new Date();
+    }
+
+    if (TERMINAL_JOB_STATUSES.includes(status)) {
+      updateData.completedAt = new Date();
+    }
+
+    // Guard against a concurrent transition since the read above
+    const { count } = await tx.job.updateMany({
+      where: { id: jobId, status: from },
+      data: updateData,
+    });
+
+    if (count === 0) {
+      throw new AppError(`Job ${jobId} changed status concurrently`, 'JOB_CONFLICT', 409);
+    }
+
+    if (!isProgressUpdate) {
+      await tx.jobTransition.create({
+        data: { jobId, fromStatus: from, toStatus: status, reason: error },
+      });
+    }
+
+    return { userId: job.userId, isProgressUpdate };
+  });
+
+  await publishJobEvent({
+    type: isProgressUpdate ? 'progress' : 'status',
+    jobId,
+    userId,
+    status,
+    progress,
+    step,
+    ...(result && { result }),
+    ...(error && { error }),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Update job status in database. Repeating the current status only updates progress.
+export async function updateJobStatus(
+  jobId: string,
+  status: JobStatus,
+  progress?: number,
+  result?: JobResult | null,
+  error?: string
+) {
+  await recordJobStatus(jobId, status, { progress, result, error });
+}
+
+/**
+ * Report progress on a running job, optionally naming the step it just finished
+ */
+export async function updateJobProgress(
+  jobId: string,
+  progress: number,
+  step?: string
+): Promise<void> {
+  await recordJobStatus(jobId, 'processing', { progress, step });
+}
+
+/**
+ * Get a job's transition history, oldest first
+ */
+export async function getJobTransitions(jobId: string) {
+  return prisma.jobTransition.findMany({
+    where: { jobId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Mark a job completed with its results
+ */
+export async function completeJob(jobId: string, result: JobResult): Promise<void> {
+  await updateJobStatus(jobId, 'completed', 100, result);
+}
+
+/**
+ * Mark a job failed
+ */
+export async function failJob(jobId: string, error: string): Promise<void> {
+  await updateJobStatus(jobId, 'failed', undefined, null, error);
+}
+
+/**
+ * Mark a job as waiting for another attempt
+ */
+export async function retryJob(jobId: string, error: string): Promise<void> {
+  await updateJobStatus(jobId, 'retrying', undefined, null, error);
+}
+
+/**
+ * Check whether a job has been cancelled
+ */
+export async function isJobCancelled(jobId: string): Promise<boolean> {
+  const job = await prisma.job.findUnique({ where: { id: jobId }, select: { status: true } });
+  return job?.status === 'cancelled';
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  return prisma.job.findUnique({
+    where: { id: jobId },
+  });
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export async function listUserJobs(
+  userId: string,
+  options: { status?: string | null; page?: number; limit?: number } = {}
+) {
+  const { status, page = 1, limit = 20 } = options;
+  const where: Prisma.JobWhereInput = { userId, ...(status && { status }) };
+
+  const [jobs, total] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.job.count({ where }),
+  ]);
+
+  return { jobs, total };
+}
+
+/**
+ * List a user's queued and running jobs, oldest first
+ */
+export async function listActiveJobs(userId: string): Promise<Job[]> {
+  return prisma.job.findMany({
+    where: { userId, status: { notIn: TERMINAL_JOB_STATUSES } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Count jobs by status, optionally for a single user
+ */
+export async function countJobsByStatus(userId?: string): Promise<Record<string, number>> {
+  const stats = await prisma.job.groupBy({
+    by: ['status'],
+    where: userId ? { userId } : undefined,
+    _count: { status: true },
+  });
+
+  return Object.fromEntries(stats.map((stat) => [stat.status, stat._count.status]));
+}
+
+/**
+ * Shape a job for API responses
+ */
+export function serializeJob(job: Job) {
+  const result = job.result as unknown as JobResult | null;
+  const input = job.input as { imageType?: string } | null;
+
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    currentStep: job.currentStep,
+    imageType: input?.imageType,
+    ...(job.batchId && { batchId: job.batchId }),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    ...(job.status === 'completed' &&
+      result && {
+        results: result.processedUrls || [],
+        outputs: result.outputs || [],
+        watermarkId: result.outputs?.[0]?.watermarkId,
+      }),
+    ...(['failed', 'retrying'].includes(job.status) && job.error && { error: job.error }),
+  };
+}
+
+/**
+ * Average queue wait and processing durations (ms) for jobs completed since a date
+ */
+export async function getJobTimings(since: Date) {
+  const jobs = await prisma.job.findMany({
+    where: { status: 'completed', completedAt: { gte: since }, startedAt: { not: null } },
+    select: { createdAt: true, startedAt: true, completedAt: true },
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    count: jobs.length,
+    averageWaitTime: average(jobs.map((job) => job.startedAt!.getTime() - job.createdAt.getTime())),
+    averageProcessingTime: average(
+      jobs.map((job) => job.completedAt!.getTime() - job.startedAt!.getTime())
+    ),
+  };
+}
+
+// Clean up old completed and failed jobs
+export async function cleanupOldJobs(
+  options: { completedOlderThan?: number; failedOlderThan?: number } = {}
+): Promise<number> {
+  const { completedOlderThan = 7 * 24 * 60 * 60 * 1000, failedOlderThan = completedOlderThan } =
+    options;
+  const now = Date.now();
+
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      OR: [
+        { status: 'completed', completedAt: { lt: new Date(now - completedOlderThan) } },
+        {
+          status: { in: ['failed', 'cancelled'] },
+          completedAt: { lt: new Date(now - failedOlderThan) },
+        },
+      ],
+    },
+  });
+
+  return count;
+}
@@ -1,58 +1,99 @@
 import { prisma } from './prisma';
+import { getStorage, storageKeyFromUrl, STAGING_PREFIX } from './storage';
+
+export type StoragePlan = 'free' | 'basic' | 'pro' | 'vip';
 
 export interface LimitsCheck {
   allowed: boolean;
+  plan?: StoragePlan;
   currentUsage?: number;
   limit?: number;
+  fileCount?: number;
+  fileLimit?: number;
   reason?: string;
 }
 
+export interface StorageUsageSummary {
+  bytesUsed: number;
+  fileCount: number;
+}
+
+// Storage quotas per plan
+export const STORAGE_LIMITS: Record<StoragePlan, { storage: number; files: number }> = {
+  free: { storage: 100 * 1024 * 1024, files: 50 }, // 100MB
+  basic: { storage: 1024 * 1024 * 1024, files: 500 }, // 1GB
+  pro: { storage: 10 * 1024 * 1024 * 1024, files: 5000 }, // 10GB
+  vip: { storage: 100 * 1024 * 1024 * 1024, files: 50000 }, // 100GB
+};
+
+// Upload records whose bytes are counted: reserved when the upload starts, kept once confirmed
+const COUNTED_FILE_STATUSES = ['pending', 'processing', 'uploading', 'completing', 'completed'];
+// Presigned PUTs expire after an hour; reservations still pending after this are abandoned
+export const PENDING_UPLOAD_TTL = 2 * 60 * 60 * 1000;
+
+/**
+ * Resolve the storage plan for a user from their active subscription
+ */
+export async function getStoragePlan(userId: string): Promise<StoragePlan> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { userId },
+    select: { planType: true, status: true },
+  });
+
+  if (!subscription || subscription.status !== 'active') {
+    return 'free';
+  }
+
+  return Object.hasOwn(STORAGE_LIMITS, subscription.planType)
+    ? (subscription.planType as StoragePlan)
+    : 'free';
+}
+
+/**
+ * Get a user's tracked storage usage
+ */
+export async function getStorageUsage(userId: string): Promise<StorageUsageSummary> {
+  const usage = await prisma.storageUsage.findUnique({
+    where: { userId },
+  });
+
+  return {
+    bytesUsed: Number(usage?.bytesUsed ?? 0),
+    fileCount: usage?.fileCount ?? 0,
+  };
+}
+
 /**
  * Check user limits for uploads/storage
  */
 export async function checkUserLimits(
   userId: string,
-  fileSize: number
+  fileSize: number = 0,
+  fileCount: number = 1
 ): Promise<LimitsCheck> {
   try {
-    // Get user's plan
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { subscription: true },
-    });
-
-    if (!user) {
-      return { allowed: false, reason: 'User not found' };
-    }
+    await expireStaleUploads(userId);
+    const plan = await getStoragePlan(userId);
+    const userLimit = STORAGE_LIMITS[plan];
+    const usage = await getStorageUsage(userId);
 
-    // Basic limits check (can be enhanced based on plan)
-    const plan = user.subscription?.plan || 'free';
-    const limits = {
-      free: { storage: 100 * 1024 * 1024 }, // 100MB
-      basic: { storage: 1024 * 1024 * 1024 }, // 1GB
-      pro: { storage: 10 * 1024 * 1024 * 1024 }, // 10GB
-      vip: { storage: 100 * 1024 * 1024 * 1024 }, // 100GB
+    const summary = {
+      plan,
+      currentUsage: usage.bytesUsed,
+      limit: userLimit.storage,
+      fileCount: usage.fileCount,
+      fileLimit: userLimit.files,
     };
 
-    const userLimit = limits[plan as keyof typeof limits] || limits.free;
-
-    // Check current usage (simplified - can be enhanced)
-    const currentUsage = 0; // TODO: Calculate from user's files
+    if (usage.bytesUsed + fileSize > userLimit.storage) {
+      return { allowed: false, ...summary, reason: 'Storage limit exceeded' };
+    }
 
-    if (currentUsage + fileSize > userLimit.storage) {
-      return {
-        allowed: false,
-        currentUsage,
-        limit: userLimit.storage,
-        reason: 'Storage limit exceeded',
-      };
+    if (usage.fileCount + fileCount > userLimit.files) {
+      return { allowed: false, ...summary, reason: 'File count limit exceeded' };
     }
 
-    return {
-      allowed: true,
-      currentUsage,
-      limit: userLimit.storage,
-    };
+    return { allowed: true, ...summary };
   } catch (error) {
     console.error('Error checking user limits:', error);
     return { allowed: false, reason: 'Error checking limits' };
@@ -60,19 +101,25 @@ export async function checkUserLimits(
 }
 
 /**
- * Update user usage after upload
+ * Update user usage after an upload, deletion or processed output.
+ * Pass negative values to release usage.
  */
 export async function updateUserUsage(
   userId: string,
-  fileSize: number
+  fileSize: number,
+  fileCount: number = 1
 ): Promise<void> {
   try {
-    // TODO: Update user's storage usage in database
-    // This is a placeholder implementation
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        // Update usage field if it exists in schema
+    await prisma.storageUsage.upsert({
+      where: { userId },
+      create: {
+        userId,
+        bytesUsed: BigInt(Math.max(0, fileSize)),
+        fileCount: Math.max(0, fileCount),
+      },
+      update: {
+        bytesUsed: { increment: BigInt(fileSize) },
+        fileCount: { increment: fileCount },
       },
     });
   } catch (error) {
@@ -81,3 +128,89 @@ export async function updateUserUsage(
   }
 }
 
+/**
+ * Release the reservations of uploads that were never confirmed and discard their staged bytes
+ */
+export async function expireStaleUploads(userId: string): Promise<number> {
+  const stale = await prisma.file.findMany({
+    where: {
+      userId,
+      status: 'pending',
+      uploadedAt: { lt: new Date(Date.now() - PENDING_UPLOAD_TTL) },
+    },
+    select: { id: true, filename: true, size: true },
+  });
+
+  const storage = getStorage();
+  let expired = 0;
+  for (const file of stale) {
+    // Claimed first so a confirmation or deletion racing with this releases nothing twice
+    const claimed = await prisma.file.updateMany({
+      where: { id: file.id, status: 'pending' },
+      data: { status: 'expired' },
+    });
+    if (claimed.count !== 1) {
+      continue;
+    }
+
+    await updateUserUsage(userId, -file.size, -1);
+    await storage.delete(`${STAGING_PREFIX}${file.filename}`).catch((error) => {
+      console.warn('Could not delete staged upload:', error);
+    });
+    expired++;
+  }
+
+  return expired;
+}
+
+/**
+ * Rebuild a user's usage the way uploads and workers account for it: reserved and completed
+ * uploads, every stored rendition of a processed image, and watermarked variants
+ */
+export async function recalculateUserUsage(userId: string): Promise<StorageUsageSummary> {
+  await expireStaleUploads(userId);
+
+  const files = await prisma.file.aggregate({
+    where: { userId, status: { in: COUNTED_FILE_STATUSES } },
+    _sum: { size: true },
+    _count: true,
+  });
+
+  const processedImages = await prisma.processedImage.findMany({
+    where: { userId },
+    select: { renditions: true, metadata: true, watermarkedUrl: true },
+  });
+
+  const storage = getStorage();
+  let processedBytes = 0;
+  let processedCount = 0;
+  for (const image of processedImages) {
+    // Images from before renditions were stored only have the primary output's size
+    const renditions = image.renditions as { size?: number }[] | null;
+    const metadata = image.metadata as { fileSize?: number } | null;
+    processedBytes += renditions?.length
+      ? renditions.reduce((sum, rendition) => sum + (rendition.size || 0), 0)
+      : metadata?.fileSize || 0;
+    processedCount++;
+
+    const watermarkedKey = image.watermarkedUrl && storageKeyFromUrl(image.watermarkedUrl, storage);
+    const watermarked = watermarkedKey ? await storage.head(watermarkedKey) : null;
+    if (watermarked) {
+      processedBytes += watermarked.size;
+      processedCount++;
+    }
+  }
+
+  const usage = {
+    bytesUsed: (files._sum.size || 0) + processedBytes,
+    fileCount: files._count + processedCount,
+  };
+
+  await prisma.storageUsage.upsert({
+    where: { userId },
+    create: { userId, bytesUsed: BigInt(usage.bytesUsed), fileCount: usage.fileCount },
+    update: { bytesUsed: BigInt(usage.bytesUsed), fileCount: usage.fileCount },
+  });
+
+  return usage;
+}
@@ -0,0 +1,99 @@
+/**
+ * Local AI Provider
+ * Deterministic sharp-based stand-in for the hosted models, used in dev and CI
+ */
+
+import sharp from 'sharp';
+import type { AIProvider, GenerateOptions } from './ai-provider';
+import { getStorage, storageKeyFromUrl, STAGING_PREFIX } from './storage';
+import { QUARANTINE_PREFIX } from './malware-scan';
+import { requestPublicUrl } from './remote-url';
+
+/**
+ * Load an image from a data URL, our own storage or a public http(s) URL.
+ * Anything else is refused: these URLs come from users.
+ */
+export async function loadImageBuffer(imageUrl: string): Promise<Buffer> {
+  if (imageUrl.startsWith('data:')) {
+    const base64 = imageUrl.slice(imageUrl.indexOf(',') + 1);
+    return Buffer.from(base64, 'base64');
+  }
+
+  // Read stored objects directly rather than through their public URL
+  const storage = getStorage();
+  const key = storageKeyFromUrl(imageUrl, storage);
+  if (key) {
+    // Uploads that haven't passed inspection, or failed it, are never processed
+    if (key.startsWith(STAGING_PREFIX) || key.startsWith(QUARANTINE_PREFIX)) {
+      throw new Error(`Stored image not available: ${key}`);
+    }
+    const stored = await storage.get(key);
+    if (!stored) {
+      throw new Error(`Stored image not found: ${key}`);
+    }
+    return stored;
+  }
+
+  // Only public hosts; redirects aren't followed since they could lead anywhere
+  const response = await requestPublicUrl(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`);
+  }
+  return response.body;
+}
+
+/**
+ * Encode a PNG buffer as a data URL
+ */
+export function toDataUrl(buffer: Buffer): string {
+  return `data:image/png;base64,${buffer.toString('base64')}`;
+}
+
+export const localProvider: AIProvider = {
+  name: 'local',
+  models: {
+    generate: 'local/studio-backdrop',
+    removeBackground: 'local/alpha-channel',
+    enhanceFace: 'local/sharpen',
+    upscale: 'local/lanczos3',
+  },
+
+  async generate(options: GenerateOptions): Promise<string[]> {
+    const { imageUrl, numOutputs = 1 } = options;
+    const input = await loadImageBuffer(imageUrl);
+
+    // One variant per output, each with a slightly shifted hue
+    return Promise.all(
+      Array.from({ length: numOutputs }, async (_, index) => {
+        const output = await sharp(input)
+          .flatten({ background: '#ffffff' })
+          .modulate({ hue: index * 15, saturation: 1.05 })
+          .png()
+          .toBuffer();
+        return toDataUrl(output);
+      })
+    );
+  },
+
+  async removeBackground(imageUrl: string): Promise<string> {
+    const input = await loadImageBuffer(imageUrl);
+    const output = await sharp(input).ensureAlpha().png().toBuffer();
+    return toDataUrl(output);
+  },
+
+  async enhanceFace(imageUrl: string): Promise<string> {
+    const input = await loadImageBuffer(imageUrl);
+    const output = await sharp(input).normalise().sharpen().png().toBuffer();
+    return toDataUrl(output);
+  },
+
+  async upscale(imageUrl: string, scale: number = 2): Promise<string> {
+    const input = await loadImageBuffer(imageUrl);
+    const { width = 0 } = await sharp(input).metadata();
+    const output = await sharp(input)
+      .resize({ width: width * scale, kernel: 'lanczos3' })
+      .png()
+      .toBuffer();
+    return toDataUrl(output);
+  },
+};
@@ -0,0 +1,182 @@
+/**
+ * Local Storage
+ * Filesystem storage backend for development and tests, served by /api/storage
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { mkdir, readFile, writeFile, rm, stat, readdir } from 'fs/promises';
+import type { StorageAdapter, StoredObject } from './storage';
+
+interface LocalObjectMeta {
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+export const LOCAL_STORAGE_PATH = '/api/storage';
+const DEFAULT_SIGNED_URL_EXPIRY = 3600; // seconds
+// Content type and metadata live in sidecar files under this folder
+const META_DIR = '.meta';
+
+function root(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || '.storage');
+}
+
+// Resolve a key inside the storage root, refusing anything that escapes it
+function resolvePath(key: string, base = root()): string {
+  const resolved = path.resolve(base, key);
+  if (!key || !resolved.startsWith(`${base}${path.sep}`) || key.split('/')[0] === META_DIR) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+}
+
+function metaPath(key: string): string {
+  return `${resolvePath(key, path.join(root(), META_DIR))}.json`;
+}
+
+async function readMeta(key: string): Promise<LocalObjectMeta> {
+  try {
+    return JSON.parse(await readFile(metaPath(key), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+// STORAGE_SECRET signs upload and download URLs; a fixed secret is fine for local development
+function signature(key: string, method: string, expiresAt: number, length?: string | null): string {
+  return crypto
+    .createHmac('sha256', process.env.STORAGE_SECRET || 'studio-nexora-local-storage')
+    .update(`${method}:${key}:${expiresAt}${length ? `:${length}` : ''}`)
+    .digest('base64url');
+}
+
+/**
+ * Check a signed local storage URL for the given method
+ */
+export function verifyLocalStorageUrl(
+  key: string,
+  method: 'GET' | 'PUT',
+  searchParams: URLSearchParams
+): boolean {
+  const provided = searchParams.get('sig');
+  const expiresAt = Number(searchParams.get('exp'));
+  if (!provided || searchParams.get('method') !== method || !expiresAt) {
+    return false;
+  }
+  if (expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signature(key, method, expiresAt, searchParams.get('len')));
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export const localFileStorage: StorageAdapter = {
+  name: 'local',
+
+  async put(key, body, options = {}) {
+    const filePath = resolvePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+
+    const meta: LocalObjectMeta = {
+      contentType: options.contentType,
+      cacheControl: options.cacheControl,
+      metadata: options.metadata,
+    };
+    await mkdir(path.dirname(metaPath(key)), { recursive: true });
+    await writeFile(metaPath(key), JSON.stringify(meta));
+  },
+
+  async get(key) {
+    try {
+      return await readFile(resolvePath(key));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async head(key) {
+    try {
+      const stats = await stat(resolvePath(key));
+      const meta = await readMeta(key);
+      return {
+        key,
+        size: stats.size,
+        contentType: meta.contentType,
+        lastModified: stats.mtime,
+        metadata: meta.metadata,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await rm(resolvePath(key), { force: true });
+    await rm(metaPath(key), { force: true });
+  },
+
+  async list(prefix, options = {}) {
+    const base = root();
+    let entries: string[];
+    try {
+      entries = await readdir(base, { recursive: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const keys = entries
+      .map((entry) => entry.split(path.sep).join('/'))
+      .filter((key) => key.startsWith(prefix) && !key.startsWith(`${META_DIR}/`))
+      .sort();
+
+    const objects: StoredObject[] = [];
+    for (const key of keys) {
+      const stats = await stat(path.join(base, key));
+      if (stats.isFile()) {
+        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+      if (options.limit && objects.length >= options.limit) {
+        break;
+      }
+    }
+    return objects;
+  },
+
+  async getSignedUrl(key, options = {}) {
+    const { method = 'GET', expiresIn = DEFAULT_SIGNED_URL_EXPIRY } = options;
+    resolvePath(key);
+
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+    const length = options.contentLength?.toString();
+    const query = new URLSearchParams({
+      method,
+      exp: String(expiresAt),
+      ...(length && { len: length }),
+      sig: signature(key, method, expiresAt, length),
+    });
+    return `${this.getPublicUrl(key)}?${query}`;
+  },
+
+  getPublicUrl(key) {
+    const encoded = key.split('/').map(encodeURIComponent).join('/');
+    return `${process.env.NEXT_PUBLIC_APP_URL || ''}${LOCAL_STORAGE_PATH}/${encoded}`;
+  },
+};
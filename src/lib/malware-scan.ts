@@ -0,0 +1,135 @@
+/**
+ * Malware Scanning
+ * Scanner contract, selection of the configured scanner and quarantine of flagged uploads
+ */
+
+import type { File, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getStorage } from './storage';
+import { clamavScanner } from './clamav-scanner';
+
+export type ScannerName = 'clamav';
+export type ScanStatus = 'clean' | 'infected' | 'error' | 'skipped';
+
+export interface ScanVerdict {
+  infected: boolean;
+  signature?: string;
+}
+
+export interface MalwareScanner {
+  name: ScannerName;
+  // Largest content the scanner accepts, in bytes; bigger uploads are refused up front
+  maxSize?: number;
+  scan(content: Buffer): Promise<ScanVerdict>;
+}
+
+// Recorded on the upload as metadata.scan
+export interface MalwareScanResult {
+  scanner: ScannerName | 'none';
+  status: ScanStatus;
+  signature?: string;
+  error?: string;
+  scannedAt: string;
+  quarantineKey?: string;
+}
+
+// Flagged uploads are moved here; nothing under it is ever served
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+/**
+ * Resolve the configured malware scanner, or null when scanning is disabled.
+ * MALWARE_SCANNER selects explicitly ("none" disables); otherwise ClamAV is used when CLAMAV_HOST is set.
+ */
+export function getScanner(): MalwareScanner | null {
+  const selected = process.env.MALWARE_SCANNER || (process.env.CLAMAV_HOST ? 'clamav' : 'none');
+
+  switch (selected) {
+    case 'clamav':
+      return clamavScanner;
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown malware scanner: ${selected}`);
+  }
+}
+
+/**
+ * Largest upload the configured scanner can check, or null when there is no limit
+ */
+export function getScanSizeLimit(): number | null {
+  return getScanner()?.maxSize ?? null;
+}
+
+/**
+ * Scan uploaded bytes with the configured scanner
+ */
+export async function scanUpload(content: Buffer): Promise<MalwareScanResult> {
+  const scanner = getScanner();
+  const scannedAt = new Date().toISOString();
+  if (!scanner) {
+    return { scanner: 'none', status: 'skipped', scannedAt };
+  }
+
+  try {
+    const verdict = await scanner.scan(content);
+    return {
+      scanner: scanner.name,
+      status: verdict.infected ? 'infected' : 'clean',
+      ...(verdict.signature && { signature: verdict.signature }),
+      scannedAt,
+    };
+  } catch (error) {
+    console.error('Malware scan failed:', error);
+    return {
+      scanner: scanner.name,
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Scan failed',
+      scannedAt,
+    };
+  }
+}
+
+/**
+ * Whether a scan result means the upload must be quarantined; files that couldn't be scanned are held too
+ */
+export function requiresQuarantine(scan: MalwareScanResult): boolean {
+  return scan.status === 'infected' || scan.status === 'error';
+}
+
+/**
+ * Move an upload's bytes under the quarantine prefix and mark its record quarantined
+ */
+export async function quarantineUpload(
+  file: File,
+  content: Buffer,
+  scan: MalwareScanResult,
+  sourceKey: string = file.filename
+): Promise<File> {
+  const storage = getStorage();
+  const quarantineKey = `${QUARANTINE_PREFIX}${file.filename}`;
+
+  // Stored as opaque bytes so no backend serves it as an image
+  await storage.put(quarantineKey, content, {
+    contentType: 'application/octet-stream',
+    metadata: {
+      userId: file.userId,
+      fileId: file.id,
+      originalName: file.originalName,
+      scanStatus: scan.status,
+      ...(scan.signature && { signature: scan.signature }),
+    },
+  });
+  await storage.delete(sourceKey);
+
+  return prisma.file.update({
+    where: { id: file.id },
+    data: {
+      status: 'quarantined',
+      filename: quarantineKey,
+      metadata: {
+        ...((file.metadata as Record<string, unknown> | null) ?? {}),
+        scan: { ...scan, quarantineKey },
+      } as Prisma.InputJsonValue,
+    },
+  });
+}
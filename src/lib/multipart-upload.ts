@@ -0,0 +1,491 @@
+/**
+ * Multipart Uploads
+ * Resumable uploads sent part by part straight to storage through presigned URLs
+ */
+
+import crypto from 'crypto';
+import type { File, Prisma } from '@prisma/client';
+import { AppError } from '@/types';
+import { prisma } from './prisma';
+import { getStorage } from './storage';
+import type { StorageAdapter, StoredPart } from './storage';
+import { checkUserLimits, updateUserUsage } from './limits';
+import { getThumbnailUrls } from './image-delivery';
+import { findEmbeddedPayloads, validateFileContent } from './file-inspection';
+import { applyMetadataPolicy, getUserMetadataPolicy } from './image-metadata';
+import { computePerceptualHash } from './dedupe';
+import { getScanSizeLimit, quarantineUpload, requiresQuarantine, scanUpload } from './malware-scan';
+import { createAuditLog } from './audit';
+
+export interface MultipartSession {
+  uploadId: string;
+  key: string;
+  partSize: number;
+  partCount: number;
+  // Whether the backend handles the parts itself or they are stored as separate objects
+  native: boolean;
+  expiresAt: string;
+}
+
+export interface PartUploadUrl {
+  partNumber: number;
+  url: string;
+}
+
+export interface MultipartProgress {
+  uploadedParts: StoredPart[];
+  missingParts: number[];
+  uploadedBytes: number;
+}
+
+// Smallest part S3 accepts for anything but the last one; small enough to retry cheaply on mobile
+export const MULTIPART_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_FILE_SIZE || '52428800'); // 50MB
+const ALLOWED_TYPES = (
+  process.env.ALLOWED_FILE_TYPES ||
+  'image/jpeg,image/jpg,image/png,image/webp,image/gif,image/bmp,image/tiff'
+).split(',');
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const PART_URL_EXPIRY = 3600; // seconds
+// Unfinished uploads can be resumed for this long
+const SESSION_TTL = 24 * 60 * 60 * 1000;
+const EMULATED_PART_PREFIX = 'multipart/';
+
+// Object holding one part when the backend has no native multipart support
+function partKey(uploadId: string, partNumber: number): string {
+  return `${EMULATED_PART_PREFIX}${uploadId}/${String(partNumber).padStart(5, '0')}`;
+}
+
+function getSession(file: File): MultipartSession | null {
+  return (file.metadata as { multipart?: MultipartSession } | null)?.multipart ?? null;
+}
+
+async function listStoredParts(
+  storage: StorageAdapter,
+  session: MultipartSession
+): Promise<StoredPart[]> {
+  const parts = session.native
+    ? await storage.multipart!.listParts(session.key, session.uploadId)
+    : (await storage.list(`${EMULATED_PART_PREFIX}${session.uploadId}/`)).map((object) => ({
+        partNumber: Number(object.key.split('/').pop()),
+        size: object.size,
+      }));
+
+  return parts
+    .filter((part) => part.partNumber >= 1 && part.partNumber <= session.partCount)
+    .sort((a, b) => a.partNumber - b.partNumber);
+}
+
+async function removeStoredParts(storage: StorageAdapter, session: MultipartSession) {
+  if (session.native) {
+    await storage.multipart!.abort(session.key, session.uploadId);
+    return;
+  }
+
+  const parts = await storage.list(`${EMULATED_PART_PREFIX}${session.uploadId}/`);
+  await Promise.all(parts.map((part) => storage.delete(part.key)));
+}
+
+// Give up an unfinished upload: release its reservation and drop any parts sent.
+// Claimed first so concurrent aborts, completions and expiry release it once.
+async function discardUnfinished(
+  file: File,
+  session: MultipartSession,
+  status: 'aborted' | 'expired'
+): Promise<boolean> {
+  const claimed = await prisma.file.updateMany({
+    where: { id: file.id, status: 'uploading' },
+    data: { status },
+  });
+  if (claimed.count !== 1) {
+    return false;
+  }
+
+  await updateUserUsage(file.userId, -file.size, -1);
+  await removeStoredParts(getStorage(), session);
+  return true;
+}
+
+/**
+ * Discard a user's uploads whose sessions ran out, releasing what they reserved
+ */
+export async function expireMultipartUploads(userId: string): Promise<number> {
+  const files = await prisma.file.findMany({ where: { userId, status: 'uploading' } });
+
+  let expired = 0;
+  for (const file of files) {
+    const session = getSession(file);
+    if (!session || new Date(session.expiresAt) >= new Date()) {
+      continue;
+    }
+    try {
+      if (await discardUnfinished(file, session, 'expired')) {
+        expired++;
+      }
+    } catch (error) {
+      console.warn(`Could not expire multipart upload ${file.id}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Check an upload request before any storage is reserved
+ */
+export function validateMultipartRequest(data: {
+  fileName?: unknown;
+  fileType?: unknown;
+  fileSize?: unknown;
+  checksum?: unknown;
+}): { fileName: string; fileType: string; fileSize: number; checksum: string } {
+  const { fileName, fileType, fileSize, checksum } = data;
+
+  if (typeof fileName !== 'string' || !fileName.trim()) {
+    throw new AppError('fileName is required', 'INVALID_FILE_NAME', 400);
+  }
+  if (typeof fileType !== 'string' || !ALLOWED_TYPES.includes(fileType)) {
+    throw new AppError('File type not supported', 'UNSUPPORTED_FILE_TYPE', 400);
+  }
+  if (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize <= 0) {
+    throw new AppError('Invalid file size', 'INVALID_FILE_SIZE', 400);
+  }
+  if (fileSize > MAX_UPLOAD_SIZE) {
+    throw new AppError(
+      `File size exceeds maximum limit of ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB`,
+      'FILE_TOO_LARGE',
+      400
+    );
+  }
+  // Anything the scanner refuses would be quarantined once uploaded
+  const scanLimit = getScanSizeLimit();
+  if (scanLimit && fileSize > scanLimit) {
+    throw new AppError(
+      `File size exceeds the malware scanning limit of ${scanLimit / (1024 * 1024)}MB`,
+      'FILE_TOO_LARGE',
+      400
+    );
+  }
+  if (typeof checksum !== 'string' || !/^[a-f0-9]{64}$/i.test(checksum)) {
+    throw new AppError('checksum must be the hex SHA-256 of the file', 'INVALID_CHECKSUM', 400);
+  }
+
+  const sanitizedName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_').slice(-255);
+  return { fileName: sanitizedName, fileType, fileSize, checksum: checksum.toLowerCase() };
+}
+
+/**
+ * Reserve a file record and start a multipart upload for it
+ */
+export async function initiateMultipartUpload(data: {
+  userId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  checksum: string;
+  folder?: string;
+  metadata?: Record<string, unknown>;
+}): Promise<{ file: File; session: MultipartSession; parts: PartUploadUrl[] }> {
+  const {
+    userId,
+    fileName,
+    fileType,
+    fileSize,
+    checksum,
+    folder = 'uploads',
+    metadata = {},
+  } = data;
+
+  await expireMultipartUploads(userId);
+  const limits = await checkUserLimits(userId, fileSize);
+  if (!limits.allowed) {
+    throw new AppError(limits.reason || 'Storage limit exceeded', 'LIMIT_EXCEEDED', 403);
+  }
+
+  const fileId = crypto.randomUUID();
+  const now = new Date();
+  const extension = fileName.includes('.') ? fileName.split('.').pop() : 'bin';
+  const key = `${folder}/${userId}/${now.getFullYear()}/${now.getMonth() + 1}/${now.getTime()}-${fileId}.${extension}`;
+
+  const storage = getStorage();
+  const native = Boolean(storage.multipart);
+  const uploadId = native
+    ? await storage.multipart!.create(key, {
+        contentType: fileType,
+        metadata: { userId, fileId, originalName: fileName },
+      })
+    : crypto.randomUUID();
+
+  const session: MultipartSession = {
+    uploadId,
+    key,
+    partSize: MULTIPART_PART_SIZE,
+    partCount: Math.ceil(fileSize / MULTIPART_PART_SIZE),
+    native,
+    expiresAt: new Date(now.getTime() + SESSION_TTL).toISOString(),
+  };
+
+  const file = await prisma.file.create({
+    data: {
+      id: fileId,
+      userId,
+      filename: key,
+      originalName: fileName,
+      mimeType: fileType,
+      size: fileSize,
+      checksum,
+      url: storage.getPublicUrl(key),
+      thumbnails: [],
+      metadata: {
+        ...metadata,
+        folder,
+        multipart: session,
+      } as unknown as Prisma.InputJsonValue,
+      status: 'uploading',
+    },
+  });
+
+  // Reserved now so parallel uploads can't overshoot the quota; settled on completion
+  await updateUserUsage(userId, fileSize);
+
+  const parts = await getPartUploadUrls(session);
+  return { file, session, parts };
+}
+
+/**
+ * One of the user's unfinished multipart uploads
+ */
+export async function getMultipartUpload(
+  fileId: string,
+  userId: string
+): Promise<{ file: File; session: MultipartSession } | null> {
+  const file = await prisma.file.findFirst({ where: { id: fileId, userId, status: 'uploading' } });
+  const session = file && getSession(file);
+  if (!file || !session) {
+    return null;
+  }
+
+  if (new Date(session.expiresAt) < new Date()) {
+    await discardUnfinished(file, session, 'expired');
+    throw new AppError('Upload session has expired', 'UPLOAD_EXPIRED', 410);
+  }
+
+  return { file, session };
+}
+
+/**
+ * Fresh presigned URLs for the given parts, or every part when none are given
+ */
+export async function getPartUploadUrls(
+  session: MultipartSession,
+  partNumbers?: number[]
+): Promise<PartUploadUrl[]> {
+  const storage = getStorage();
+  const numbers = partNumbers ?? Array.from({ length: session.partCount }, (_, i) => i + 1);
+
+  return Promise.all(
+    numbers.map(async (partNumber) => {
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.partCount) {
+        throw new AppError(`Invalid part number: ${partNumber}`, 'INVALID_PART_NUMBER', 400);
+      }
+
+      const url = session.native
+        ? await storage.multipart!.getPartUrl(
+            session.key,
+            session.uploadId,
+            partNumber,
+            PART_URL_EXPIRY
+          )
+        : await storage.getSignedUrl(partKey(session.uploadId, partNumber), {
+            method: 'PUT',
+            expiresIn: PART_URL_EXPIRY,
+          });
+      return { partNumber, url };
+    })
+  );
+}
+
+/**
+ * Parts already received, and those still to send when resuming
+ */
+export async function getMultipartProgress(session: MultipartSession): Promise<MultipartProgress> {
+  const uploadedParts = await listStoredParts(getStorage(), session);
+  const uploaded = new Set(uploadedParts.map((part) => part.partNumber));
+
+  return {
+    uploadedParts,
+    missingParts: Array.from({ length: session.partCount }, (_, i) => i + 1).filter(
+      (partNumber) => !uploaded.has(partNumber)
+    ),
+    uploadedBytes: uploadedParts.reduce((sum, part) => sum + part.size, 0),
+  };
+}
+
+/**
+ * Assemble the parts and verify the result: declared size and checksum, then its content
+ */
+export async function completeMultipartUpload(
+  file: File,
+  session: MultipartSession
+): Promise<File> {
+  // Claimed so concurrent completions assemble, scan and count the upload once
+  const claimed = await prisma.file.updateMany({
+    where: { id: file.id, status: 'uploading' },
+    data: { status: 'completing' },
+  });
+  if (claimed.count !== 1) {
+    throw new AppError('Upload is already being completed', 'UPLOAD_IN_PROGRESS', 409);
+  }
+
+  try {
+    return await assembleUpload(file, session);
+  } catch (error) {
+    // Uploads that weren't discarded can be resumed and completed again
+    await prisma.file.updateMany({
+      where: { id: file.id, status: 'completing' },
+      data: { status: 'uploading' },
+    });
+    throw error;
+  }
+}
+
+async function assembleUpload(file: File, session: MultipartSession): Promise<File> {
+  const storage = getStorage();
+  const { uploadedParts, missingParts, uploadedBytes } = await getMultipartProgress(session);
+
+  if (missingParts.length) {
+    throw new AppError(`Missing parts: ${missingParts.join(', ')}`, 'INCOMPLETE_UPLOAD', 409);
+  }
+
+  const wrongSize = uploadedParts.find(
+    (part) => part.partNumber < session.partCount && part.size !== session.partSize
+  );
+  if (wrongSize || uploadedBytes !== file.size) {
+    throw new AppError(
+      wrongSize
+        ? `Part ${wrongSize.partNumber} must be ${session.partSize} bytes`
+        : `Uploaded ${uploadedBytes} bytes, expected ${file.size}`,
+      'PART_SIZE_MISMATCH',
+      400
+    );
+  }
+
+  // Emulated parts are joined here; native ones are joined by the backend and read back
+  let content: Buffer;
+  if (session.native) {
+    await storage.multipart!.complete(session.key, session.uploadId, uploadedParts);
+    content = (await storage.get(session.key))!;
+  } else {
+    const buffers = [];
+    for (const part of uploadedParts) {
+      buffers.push((await storage.get(partKey(session.uploadId, part.partNumber)))!);
+    }
+    content = Buffer.concat(buffers);
+  }
+
+  // Drop whatever was uploaded and release its reservation; the file record stays to report why
+  const discard = async (status: string) => {
+    if (session.native) {
+      await storage.delete(session.key);
+    } else {
+      await removeStoredParts(storage, session);
+    }
+    await prisma.file.update({ where: { id: file.id }, data: { status } });
+    await updateUserUsage(file.userId, -file.size, -1);
+  };
+
+  const checksum = crypto.createHash('sha256').update(content).digest('hex');
+  if (checksum !== file.checksum) {
+    await discard('failed');
+    throw new AppError('Checksum does not match the uploaded file', 'CHECKSUM_MISMATCH', 422);
+  }
+
+  // Flagged (or unscannable) uploads are kept aside for review instead of being deleted
+  const scan = await scanUpload(content);
+  if (requiresQuarantine(scan)) {
+    await quarantineUpload(file, content, scan);
+    if (!session.native) {
+      await removeStoredParts(storage, session);
+    }
+    await updateUserUsage(file.userId, -file.size, -1);
+
+    await createAuditLog('upload_quarantined', {
+      category: 'security',
+      userId: file.userId,
+      fileId: file.id,
+      scanner: scan.scanner,
+      status: scan.status,
+      signature: scan.signature,
+      error: scan.error,
+    });
+
+    throw scan.status === 'infected'
+      ? new AppError('File contains malware', 'MALWARE_DETECTED', 422)
+      : new AppError('File could not be scanned and has been held for review', 'SCAN_FAILED', 422);
+  }
+
+  const validation = await validateFileContent(content, {
+    fileType: file.mimeType,
+    fileName: file.originalName,
+  });
+  if (!validation.valid) {
+    await discard('rejected');
+    throw new AppError(validation.error!, validation.code!, 422);
+  }
+
+  const threats = findEmbeddedPayloads(content, validation.detectedType!);
+  if (threats.length) {
+    await discard('rejected');
+    throw new AppError(`File contains ${threats.join(', ')}`, 'SECURITY_THREAT_DETECTED', 422);
+  }
+
+  // The stored file only carries the metadata the owner's policy allows
+  const metadata = (file.metadata as Record<string, unknown> | null) ?? {};
+  const privacy = await applyMetadataPolicy(content, await getUserMetadataPolicy(file.userId));
+
+  if (!session.native || privacy.removed.length) {
+    await storage.put(session.key, privacy.buffer, {
+      contentType: file.mimeType,
+      metadata: { userId: file.userId, fileId: file.id, originalName: file.originalName },
+    });
+  }
+  if (!session.native) {
+    await removeStoredParts(storage, session);
+  }
+
+  const completed = await prisma.file.update({
+    where: { id: file.id },
+    data: {
+      status: 'completed',
+      size: privacy.buffer.length,
+      checksum: crypto.createHash('sha256').update(privacy.buffer).digest('hex'),
+      perceptualHash: await computePerceptualHash(privacy.buffer),
+      metadata: {
+        ...metadata,
+        metadataPolicy: privacy.policy,
+        removedMetadata: privacy.removed,
+        scan,
+      } as unknown as Prisma.InputJsonValue,
+      uploadedAt: new Date(),
+      thumbnails: IMAGE_TYPES.includes(file.mimeType) ? getThumbnailUrls(session.key) : [],
+    },
+  });
+
+  // The reservation was for the declared size; stripping metadata may have shrunk the file
+  await updateUserUsage(file.userId, completed.size - file.size, 0);
+  return completed;
+}
+
+/**
+ * Abandon an upload and discard any parts already sent.
+ * Returns false when the upload was already completed, aborted or expired.
+ */
+export async function abortMultipartUpload(
+  file: File,
+  session: MultipartSession | null = getSession(file)
+): Promise<boolean> {
+  if (!session) {
+    return false;
+  }
+  return discardUnfinished(file, session, 'aborted');
+}
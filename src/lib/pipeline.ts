@@ -0,0 +1,265 @@
+/**
+ * Image Pipeline Definitions
+ * Declarative, individually costed processing steps built from user settings
+ */
+
+import sharp from 'sharp';
+import { AppError } from '@/types';
+import type { ImageType, ProcessingQuality, ProcessingSettings } from '@/types';
+import type { AIProvider } from './ai-provider';
+import { loadImageBuffer, toDataUrl } from './local-ai-provider';
+
+export type PipelineStepName =
+  | 'backgroundRemoval'
+  | 'faceEnhancement'
+  | 'generate'
+  | 'noiseReduction'
+  | 'colorCorrection'
+  | 'upscale';
+
+export interface PipelineCondition {
+  // Only run for these image types
+  imageTypes?: string[];
+}
+
+// Options for a step; each step reads only the ones it uses
+export interface PipelineStepParams {
+  numOutputs?: number;
+  numInferenceSteps?: number;
+  prompt?: string;
+  scale?: number;
+  size?: number;
+}
+
+export interface PipelineStep {
+  name: PipelineStepName;
+  params: PipelineStepParams;
+  // Credits for the whole step: its unit price for every image it runs on
+  cost: number;
+  when?: PipelineCondition;
+}
+
+export interface PipelineSpec {
+  version: 1;
+  imageType: ImageType;
+  quality: ProcessingQuality;
+  steps: PipelineStep[];
+  totalCost: number;
+}
+
+// Steps in execution order
+export const STEP_ORDER: PipelineStepName[] = [
+  'backgroundRemoval',
+  'faceEnhancement',
+  'generate',
+  'noiseReduction',
+  'colorCorrection',
+  'upscale',
+];
+
+// Processing costs (in credits per image processed)
+export const STEP_COSTS: Record<Exclude<PipelineStepName, 'generate'>, number> = {
+  backgroundRemoval: 2,
+  faceEnhancement: 1,
+  noiseReduction: 1,
+  colorCorrection: 1,
+  upscale: 2,
+};
+
+// Generation cost per output and inference steps per quality tier
+export const GENERATION_TIERS: Record<
+  ProcessingQuality,
+  { cost: number; numInferenceSteps: number }
+> = {
+  standard: { cost: 1, numInferenceSteps: 25 },
+  high: { cost: 3, numInferenceSteps: 50 },
+  ultra: { cost: 5, numInferenceSteps: 75 },
+  maximum: { cost: 8, numInferenceSteps: 100 },
+};
+
+// Steps that run unless the user turns them off
+const DEFAULT_ENABLED: Record<PipelineStepName, boolean> = {
+  backgroundRemoval: true,
+  faceEnhancement: true,
+  generate: true,
+  noiseReduction: false,
+  colorCorrection: false,
+  upscale: true,
+};
+
+const PERSON_IMAGE_TYPES = ['person', 'person-pet', 'soloMe', 'meAndPet', 'custom'];
+
+export const MAX_OUTPUTS = 4;
+// Custom prompts are recorded in provenance manifests, which must fit in one JPEG segment
+export const MAX_PROMPT_LENGTH = 1000;
+
+function outputCount(settings: ProcessingSettings): number {
+  return Math.min(Math.max(settings.numOutputs || 3, 1), MAX_OUTPUTS);
+}
+
+function stepParams(
+  name: PipelineStepName,
+  settings: ProcessingSettings,
+  quality: ProcessingQuality
+): PipelineStepParams {
+  switch (name) {
+    case 'generate':
+      return {
+        numOutputs: outputCount(settings),
+        numInferenceSteps: GENERATION_TIERS[quality].numInferenceSteps,
+        ...(settings.customPrompt && { prompt: settings.customPrompt }),
+      };
+    case 'upscale':
+      return { scale: settings.upscaleFactor === 4 ? 4 : 2 };
+    case 'noiseReduction':
+      return { size: 3 };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Check whether a step's condition matches the pipeline
+ */
+export function stepApplies(step: PipelineStep, spec: Pick<PipelineSpec, 'imageType'>): boolean {
+  return !step.when?.imageTypes || step.when.imageTypes.includes(spec.imageType);
+}
+
+/**
+ * Build a pipeline spec from the user's processing settings
+ */
+export function buildPipelineSpec(
+  imageType: ImageType,
+  settings: ProcessingSettings = {}
+): PipelineSpec {
+  const quality: ProcessingQuality =
+    settings.quality && Object.hasOwn(GENERATION_TIERS, settings.quality)
+      ? settings.quality
+      : 'high';
+  const enabled = STEP_ORDER.filter((name) => settings[name] ?? DEFAULT_ENABLED[name]);
+
+  // Generation fans out into numOutputs images and every later step runs on each of them
+  const generateIndex = enabled.indexOf('generate');
+  const steps: PipelineStep[] = enabled.map((name, index) => ({
+    name,
+    params: stepParams(name, settings, quality),
+    cost:
+      (name === 'generate' ? GENERATION_TIERS[quality].cost : STEP_COSTS[name]) *
+      (generateIndex !== -1 && index >= generateIndex ? outputCount(settings) : 1),
+    ...(name === 'faceEnhancement' && { when: { imageTypes: PERSON_IMAGE_TYPES } }),
+  }));
+
+  if (steps.length === 0) {
+    throw new Error('Pipeline must include at least one step');
+  }
+
+  const spec = { version: 1 as const, imageType, quality, steps, totalCost: 0 };
+  spec.totalCost = steps
+    .filter((step) => stepApplies(step, spec))
+    .reduce((sum, step) => sum + step.cost, 0);
+
+  return spec;
+}
+
+/**
+ * Key identifying a pipeline configuration, used to group historical job durations.
+ * Starts with the image type so durations can also be grouped by type alone.
+ */
+export function getPipelineKey(spec: PipelineSpec): string {
+  const steps = spec.steps.filter((step) => stepApplies(step, spec)).map((step) => step.name);
+  return `${spec.imageType}:${spec.quality}:${steps.join('+')}`;
+}
+
+/**
+ * Credits for the applicable steps after a given step index
+ */
+export function remainingCost(spec: PipelineSpec, afterStepIndex: number = -1): number {
+  return spec.steps
+    .filter((step, index) => index > afterStepIndex && stepApplies(step, spec))
+    .reduce((sum, step) => sum + step.cost, 0);
+}
+
+/**
+ * Run a single step against every current image
+ */
+export async function runPipelineStep(
+  step: PipelineStep,
+  images: string[],
+  spec: PipelineSpec,
+  provider: AIProvider
+): Promise<string[]> {
+  switch (step.name) {
+    case 'backgroundRemoval':
+      return Promise.all(images.map((url) => provider.removeBackground(url)));
+    case 'faceEnhancement':
+      return Promise.all(images.map((url) => provider.enhanceFace(url)));
+    case 'generate': {
+      // Each input fans out into numOutputs variants
+      const outputs = await Promise.all(
+        images.map((url) =>
+          provider.generate({ imageUrl: url, imageType: spec.imageType, ...step.params })
+        )
+      );
+      return outputs.flat();
+    }
+    case 'noiseReduction':
+      return Promise.all(
+        images.map(async (url) =>
+          toDataUrl(
+            await sharp(await loadImageBuffer(url))
+              .median(step.params.size)
+              .png()
+              .toBuffer()
+          )
+        )
+      );
+    case 'colorCorrection':
+      return Promise.all(
+        images.map(async (url) =>
+          toDataUrl(
+            await sharp(await loadImageBuffer(url))
+              .normalise()
+              .png()
+              .toBuffer()
+          )
+        )
+      );
+    case 'upscale':
+      return Promise.all(images.map((url) => provider.upscale(url, step.params.scale)));
+  }
+}
+
+export interface PipelineRunOptions {
+  // Continue after this step using its saved outputs
+  resumeFrom?: { stepIndex: number; images: string[] };
+  onStepComplete?: (stepIndex: number, step: PipelineStep, images: string[]) => Promise<void>;
+  // Checked before each step; stops the run when it resolves true
+  shouldStop?: () => Promise<boolean>;
+}
+
+/**
+ * Execute a pipeline spec from the source image
+ */
+export async function executePipeline(
+  spec: PipelineSpec,
+  imageUrl: string,
+  provider: AIProvider,
+  options: PipelineRunOptions = {}
+): Promise<string[]> {
+  const { resumeFrom, onStepComplete, shouldStop } = options;
+  let images = resumeFrom?.images ?? [imageUrl];
+
+  for (let index = resumeFrom ? resumeFrom.stepIndex + 1 : 0; index < spec.steps.length; index++) {
+    const step = spec.steps[index];
+    if (!stepApplies(step, spec)) continue;
+
+    if (await shouldStop?.()) {
+      throw new AppError('Pipeline stopped before completion', 'PIPELINE_STOPPED', 409);
+    }
+
+    images = await runPipelineStep(step, images, spec, provider);
+    await onStepComplete?.(index, step, images);
+  }
+
+  return images;
+}
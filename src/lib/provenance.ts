@@ -0,0 +1,424 @@
+/**
+ * Provenance Manifests
+ * Signed, C2PA-style records of how each output was made, embedded as XMP and kept as a sidecar
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { prisma } from './prisma';
+import type { AIOperation, AIProvider } from './ai-provider';
+import { stepApplies, MAX_PROMPT_LENGTH } from './pipeline';
+import type { PipelineSpec, PipelineStepName, PipelineStepParams } from './pipeline';
+import { getDefaultPrompts } from './replicate';
+import { RENDITION_CONTENT_TYPES } from './renditions';
+import type { RenderedRendition } from './renditions';
+
+export interface ProvenancePrompt {
+  source: 'custom' | 'system';
+  // System prompts are internal and overlong custom ones wouldn't fit, so only their hash is recorded
+  text?: string;
+  sha256: string;
+}
+
+export interface ProvenanceRendition {
+  name: string;
+  sha256: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProvenanceStep {
+  index: number;
+  name: PipelineStepName;
+  engine: string;
+  model: string;
+  // Prompts are recorded separately
+  params: Omit<PipelineStepParams, 'prompt'>;
+  prompt?: ProvenancePrompt;
+  negativePrompt?: ProvenancePrompt;
+  completedAt?: string;
+}
+
+export interface ProvenanceManifest {
+  version: 1;
+  claimGenerator: string;
+  aiGenerated: boolean;
+  jobId: string;
+  source: { sha256: string };
+  steps: ProvenanceStep[];
+  // Non-AI edits applied after the pipeline, in order
+  edits: string[];
+  output: {
+    // Hash of the file with the embedded manifest removed
+    sha256: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    watermarkId: string;
+  };
+  // Other sizes and formats encoded from the same output
+  renditions: ProvenanceRendition[];
+  createdAt: string;
+}
+
+export interface SignedManifest {
+  manifest: ProvenanceManifest;
+  signature: {
+    alg: 'Ed25519';
+    keyId: string;
+    value: string;
+  };
+}
+
+export interface ProvenanceValidation {
+  valid: boolean;
+  signatureValid: boolean;
+  // Undefined when only a sidecar was checked
+  contentMatches?: boolean;
+  manifest?: ProvenanceManifest;
+  errors: string[];
+}
+
+export interface BuildManifestInput {
+  jobId: string;
+  // Omitted when no AI pipeline ran
+  spec?: PipelineSpec;
+  provider: AIProvider;
+  source: Buffer;
+  // Primary rendition, before the manifest is embedded
+  output: RenderedRendition;
+  renditions?: RenderedRendition[];
+  watermarkId: string;
+  edits: string[];
+}
+
+const CLAIM_GENERATOR = 'Studio Nexora';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'https://studionexora.com/ns/provenance/1.0/';
+// IPTC digital source types for fully generated and AI-edited images
+const DIGITAL_SOURCE_TYPES = {
+  generated: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+  edited: 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia',
+};
+
+const STEP_OPERATIONS: Partial<Record<PipelineStepName, AIOperation>> = {
+  backgroundRemoval: 'removeBackground',
+  faceEnhancement: 'enhanceFace',
+  generate: 'generate',
+  upscale: 'upscale',
+};
+
+let signingKey: crypto.KeyObject | null = null;
+
+// Ed25519 key from PROVENANCE_SIGNING_KEY (PKCS#8 PEM); outside production a
+// throwaway key is generated, so manifests only validate until the process restarts
+function getSigningKey(): crypto.KeyObject {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  if (process.env.PROVENANCE_SIGNING_KEY) {
+    signingKey = crypto.createPrivateKey(process.env.PROVENANCE_SIGNING_KEY.replace(/\\n/g, '\n'));
+  } else if (process.env.NODE_ENV !== 'production') {
+    console.warn('PROVENANCE_SIGNING_KEY is not set; signing manifests with a temporary key');
+    signingKey = crypto.generateKeyPairSync('ed25519').privateKey;
+  } else {
+    throw new Error('PROVENANCE_SIGNING_KEY is not configured');
+  }
+
+  return signingKey;
+}
+
+function getKeyId(key: crypto.KeyObject): string {
+  const publicKey = crypto.createPublicKey(key).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(publicKey).digest('hex').slice(0, 16);
+}
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// JSON with sorted keys, so the signed bytes don't depend on property order
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function describeRendition(rendition: RenderedRendition) {
+  return {
+    sha256: sha256(rendition.buffer),
+    mimeType: RENDITION_CONTENT_TYPES[rendition.format],
+    width: rendition.width,
+    height: rendition.height,
+  };
+}
+
+function recordPrompt(custom: string | undefined, system: string | undefined) {
+  if (custom) {
+    return {
+      source: 'custom' as const,
+      ...(custom.length <= MAX_PROMPT_LENGTH && { text: custom }),
+      sha256: sha256(custom),
+    };
+  }
+  return system ? { source: 'system' as const, sha256: sha256(system) } : undefined;
+}
+
+/**
+ * Describe how an output was produced. Step completion times come from the job's checkpoints,
+ * so build the manifest before they are cleared.
+ */
+export async function buildProvenanceManifest(
+  input: BuildManifestInput
+): Promise<ProvenanceManifest> {
+  const { jobId, spec, provider, source, output, renditions = [], watermarkId, edits } = input;
+
+  const checkpoints = await prisma.jobCheckpoint.findMany({
+    where: { jobId },
+    select: { stepIndex: true, createdAt: true },
+  });
+  const completedAt = new Map(
+    checkpoints.map((checkpoint) => [checkpoint.stepIndex, checkpoint.createdAt])
+  );
+
+  const steps = (spec?.steps ?? [])
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => stepApplies(step, spec!))
+    .map(({ step, index }): ProvenanceStep => {
+      const operation = STEP_OPERATIONS[step.name];
+      const { prompt: customPrompt, ...params } = step.params;
+      // Only Replicate's generator is driven by prompts
+      const prompts =
+        step.name === 'generate' && provider.name === 'replicate'
+          ? getDefaultPrompts(spec!.imageType)
+          : undefined;
+
+      return {
+        index,
+        name: step.name,
+        engine: operation ? provider.name : 'sharp',
+        model: operation
+          ? provider.models[operation]
+          : `sharp@${sharp.versions.sharp ?? 'unknown'}`,
+        params,
+        ...(step.name === 'generate' && {
+          prompt: recordPrompt(customPrompt, prompts?.prompt),
+          negativePrompt: recordPrompt(undefined, prompts?.negativePrompt),
+        }),
+        completedAt: completedAt.get(index)?.toISOString(),
+      };
+    });
+
+  return {
+    version: 1,
+    claimGenerator: CLAIM_GENERATOR,
+    aiGenerated: steps.some((step) => step.name === 'generate'),
+    jobId,
+    source: { sha256: sha256(source) },
+    steps,
+    edits,
+    output: { ...describeRendition(output), watermarkId },
+    renditions: renditions.map((rendition) => ({
+      name: rendition.name,
+      ...describeRendition(rendition),
+    })),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sign a manifest with the provenance key
+ */
+export function signManifest(manifest: ProvenanceManifest): SignedManifest {
+  const key = getSigningKey();
+  return {
+    manifest,
+    signature: {
+      alg: 'Ed25519',
+      keyId: getKeyId(key),
+      value: crypto.sign(null, Buffer.from(canonicalize(manifest)), key).toString('base64'),
+    },
+  };
+}
+
+/**
+ * Check a manifest was signed by our current key and has not been altered
+ */
+export function verifyManifestSignature(signed: SignedManifest): boolean {
+  try {
+    const key = getSigningKey();
+    if (signed.signature?.alg !== 'Ed25519' || signed.signature.keyId !== getKeyId(key)) {
+      return false;
+    }
+
+    return crypto.verify(
+      null,
+      Buffer.from(canonicalize(signed.manifest)),
+      crypto.createPublicKey(key),
+      Buffer.from(signed.signature.value, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
+
+function buildXmpPacket(signed: SignedManifest): string {
+  const { manifest } = signed;
+  const usedAI = manifest.steps.some((step) => step.engine !== 'sharp');
+  const sourceType = manifest.aiGenerated
+    ? DIGITAL_SOURCE_TYPES.generated
+    : usedAI
+      ? DIGITAL_SOURCE_TYPES.edited
+      : undefined;
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:nexora="${XMP_NAMESPACE}"`,
+    ' xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    sourceType ? ` Iptc4xmpExt:DigitalSourceType="${sourceType}"` : '',
+    ` nexora:watermarkId="${manifest.output.watermarkId}">`,
+    `<nexora:manifest>${Buffer.from(JSON.stringify(signed)).toString('base64')}</nexora:manifest>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+}
+
+// Offsets of the APPn segments at the start of a JPEG
+function* appSegments(jpeg: Buffer): Generator<{ start: number; end: number }> {
+  let offset = 2;
+  while (
+    offset + 4 <= jpeg.length &&
+    jpeg[offset] === 0xff &&
+    jpeg[offset + 1] >= 0xe0 &&
+    jpeg[offset + 1] <= 0xef
+  ) {
+    const end = offset + 2 + jpeg.readUInt16BE(offset + 2);
+    yield { start: offset, end };
+    offset = end;
+  }
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+/**
+ * Embed a signed manifest in a JPEG as XMP without re-encoding the image
+ */
+export function embedManifest(jpeg: Buffer, signed: SignedManifest): Buffer {
+  if (!isJpeg(jpeg)) {
+    throw new Error('Provenance manifests can only be embedded in JPEG files');
+  }
+
+  const payload = Buffer.concat([Buffer.from(XMP_HEADER), Buffer.from(buildXmpPacket(signed))]);
+  if (payload.length + 2 > 0xffff) {
+    throw new Error('Provenance manifest is too large to embed');
+  }
+
+  const segment = Buffer.alloc(4 + payload.length);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(payload.length + 2, 2);
+  payload.copy(segment, 4);
+
+  // After the existing APP segments, so JFIF/EXIF headers stay first
+  let insertAt = 2;
+  for (const { end } of appSegments(jpeg)) {
+    insertAt = end;
+  }
+
+  return Buffer.concat([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+}
+
+/**
+ * Read an embedded manifest, returning it with the file as it was before embedding
+ */
+export function extractManifest(file: Buffer): { signed: SignedManifest; original: Buffer } | null {
+  if (!isJpeg(file)) {
+    return null;
+  }
+
+  for (const { start, end } of appSegments(file)) {
+    const segment = file.subarray(start + 4, end).toString('latin1');
+    if (!segment.startsWith(XMP_HEADER) || !segment.includes(XMP_NAMESPACE)) {
+      continue;
+    }
+
+    const encoded = segment.match(/<nexora:manifest>([A-Za-z0-9+/=]+)<\/nexora:manifest>/)?.[1];
+    if (!encoded) {
+      continue;
+    }
+
+    try {
+      return {
+        signed: JSON.parse(Buffer.from(encoded, 'base64').toString('utf8')),
+        original: Buffer.concat([file.subarray(0, start), file.subarray(end)]),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate an image's embedded manifest, a sidecar manifest, or a sidecar against an image
+ */
+export function validateProvenance(input: {
+  file?: Buffer;
+  sidecar?: SignedManifest;
+}): ProvenanceValidation {
+  const errors: string[] = [];
+  const embedded = input.file ? extractManifest(input.file) : null;
+
+  if (input.file && !embedded && !input.sidecar) {
+    return {
+      valid: false,
+      signatureValid: false,
+      errors: ['No provenance manifest found in file'],
+    };
+  }
+
+  const signed = input.sidecar ?? embedded!.signed;
+  const signatureValid = verifyManifestSignature(signed);
+  if (!signatureValid) {
+    errors.push('Manifest signature is invalid or was made with an unknown key');
+  }
+
+  let contentMatches: boolean | undefined;
+  if (input.file) {
+    // Strip the embedded manifest, if any, before comparing hashes
+    const original = embedded?.original ?? input.file;
+    const hash = sha256(original);
+    contentMatches =
+      hash === signed.manifest?.output?.sha256 ||
+      Boolean(signed.manifest?.renditions?.some((rendition) => rendition.sha256 === hash));
+    if (!contentMatches) {
+      errors.push('File content does not match the manifest; it was modified or re-encoded');
+    }
+  }
+
+  return {
+    valid: signatureValid && contentMatches !== false,
+    signatureValid,
+    contentMatches,
+    manifest: signed.manifest,
+    errors,
+  };
+}
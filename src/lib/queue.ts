@@ -1,13 +1,13 @@
 import Queue from 'bull';
+import crypto from 'crypto';
+import { createJob } from './jobs';
+import type { JobType } from './jobs';
 import { prisma } from './prisma';
-
-// Redis connection configuration
-const redisConfig = {
-  host: process.env.REDIS_HOST || 'localhost',
-  port: parseInt(process.env.REDIS_PORT || '6379'),
-  password: process.env.REDIS_PASSWORD,
-  db: parseInt(process.env.REDIS_DB || '0'),
-};
+import { redisConfig } from './redis';
+import { buildPipelineSpec, getPipelineKey } from './pipeline';
+import { getJobPriority, getConcurrencyLimit, inFlightJobsWhere } from './scheduler';
+import type { JobWebhook } from './webhooks';
+import type { ProcessingSettings, QueuePriority, RenditionSet, WatermarkConfig } from '@/types';
 
 // Create job queues
 export const imageProcessingQueue = new Queue('image processing', {
@@ -36,10 +36,24 @@ export const watermarkQueue = new Queue('watermark generation', {
   },
 });
 
+// Outgoing customer webhooks; the delivery log tracks each attempt
+export const webhookQueue = new Queue('webhook delivery', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: 6,
+    backoff: {
+      type: 'exponential',
+      delay: 30000,
+    },
+  },
+});
+
 // Job types
 export interface ImageProcessingJobData {
   userId: string;
-  userEmail: string;
+  userEmail?: string;
   imageUrl: string;
   imageType: 'person' | 'person-pet';
   originalFilename: string;
@@ -47,112 +61,175 @@ export interface ImageProcessingJobData {
     quality: number;
     format: string;
     watermark: boolean;
+    renditions?: RenditionSet[];
   };
+  // AI pipeline settings; when omitted only the sharp post-processing runs
+  settings?: ProcessingSettings;
+  // Callback notified when the job completes or fails
+  webhook?: JobWebhook;
+  batchId?: string;
 }
 
 export interface WatermarkJobData {
+  userId: string;
+  // ProcessedImage the watermarked variant is written for
   imageId: string;
   imageUrl: string;
   watermarkText: string;
-  position: 'bottom-right' | 'bottom-left' | 'center';
+  logoUrl?: string;
+  position: WatermarkConfig['position'];
   opacity: number;
+  fontSize?: number;
+  tile?: boolean;
 }
 
-// Add job to queue with database logging
-export async function addImageProcessingJob(data: ImageProcessingJobData, priority: number = 0) {
-  const job = await imageProcessingQueue.add('process-image', data, {
-    priority,
-    delay: 0,
-  });
+// Add job to queue with database logging.
+// The job is only handed to bull once the user is under their concurrency cap.
+export async function addImageProcessingJob(
+  data: ImageProcessingJobData,
+  requestedPriority: QueuePriority = 'normal',
+  jobId: string = crypto.randomUUID()
+) {
+  const priority = await getJobPriority(data.userId, requestedPriority);
 
   // Log job in database
-  await prisma.job.create({
-    data: {
-      id: job.id.toString(),
-      userId: data.userId,
-      type: 'image_processing',
-      status: 'queued',
-      input: data as any,
-    },
+  const job = await createJob({
+    id: jobId,
+    userId: data.userId,
+    type: 'image_processing',
+    input: data,
+    batchId: data.batchId,
+    priority,
+    pipelineKey: data.settings
+      ? getPipelineKey(buildPipelineSpec(data.imageType, data.settings))
+      : `${data.imageType}:resize`,
   });
 
+  // The job is stored and held by now; if releasing fails the next release picks it up
+  try {
+    await releaseUserJobs(data.userId);
+  } catch (error) {
+    console.error(`Error releasing jobs for user ${data.userId}:`, error);
+  }
   return job;
 }
 
-export async function addWatermarkJob(data: WatermarkJobData, priority: number = 0) {
-  const job = await watermarkQueue.add('add-watermark', data, {
-    priority,
-    delay: 0,
-  });
+// Hand a user's held-back jobs to bull, best priority first, until they reach their cap.
+// Call whenever one of their jobs is queued or finishes.
+export async function releaseUserJobs(userId: string): Promise<number> {
+  const limit = await getConcurrencyLimit(userId);
 
-  // Log job in database
-  await prisma.job.create({
-    data: {
-      id: job.id.toString(),
-      userId: data.imageId, // Use imageId as userId for watermark jobs
-      type: 'watermark_generation',
-      status: 'queued',
-      input: data as any,
-    },
-  });
+  const released = await prisma.$transaction(async (tx) => {
+    // Serialize releases per user so concurrent calls can't exceed the cap
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
 
-  return job;
-}
+    const inFlight = await tx.job.count({ where: inFlightJobsWhere(userId) });
 
-// Update job status in database
-export async function updateJobStatus(
-  jobId: string,
-  status: string,
-  progress?: number,
-  result?: any,
-  error?: string
-) {
-  const updateData: any = {
-    status,
-    updatedAt: new Date(),
-  };
+    if (inFlight >= limit) {
+      return [];
+    }
 
-  if (progress !== undefined) {
-    updateData.progress = progress;
-  }
+    const next = await tx.job.findMany({
+      where: { userId, type: 'image_processing', status: 'queued', scheduledAt: null },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      take: limit - inFlight,
+    });
 
-  if (result) {
-    updateData.result = result;
-  }
+    await tx.job.updateMany({
+      where: { id: { in: next.map((job) => job.id) } },
+      data: { scheduledAt: new Date() },
+    });
 
-  if (error) {
-    updateData.error = error;
-  }
+    return next;
+  });
 
-  if (status === 'processing') {
-    updateData.startedAt = new Date();
+  for (const [index, job] of released.entries()) {
+    try {
+      await imageProcessingQueue.add(
+        'process-image',
+        job.input as unknown as ImageProcessingJobData,
+        {
+          jobId: job.id,
+          priority: job.priority,
+          delay: 0,
+        }
+      );
+    } catch (error) {
+      // Hold this job and the ones after it back again so the next release retries them
+      console.error(`Error queueing job ${job.id}:`, error);
+      await prisma.job.updateMany({
+        where: { id: { in: released.slice(index).map((unqueued) => unqueued.id) } },
+        data: { scheduledAt: null },
+      });
+      throw new Error('Failed to queue job');
+    }
   }
 
-  if (status === 'completed' || status === 'failed') {
-    updateData.completedAt = new Date();
-  }
+  return released.length;
+}
 
-  await prisma.job.update({
-    where: { id: jobId },
-    data: updateData,
+export async function addWatermarkJob(
+  data: WatermarkJobData,
+  priority: number = 0,
+  jobId: string = crypto.randomUUID()
+) {
+  // Log job in database
+  await createJob({
+    id: jobId,
+    userId: data.userId,
+    type: 'watermark_generation',
+    input: data,
+    priority,
+    scheduledAt: new Date(),
   });
-}
 
-// Get job status
-export async function getJobStatus(jobId: string) {
-  return await prisma.job.findUnique({
-    where: { id: jobId },
+  return watermarkQueue.add('add-watermark', data, {
+    jobId,
+    priority,
+    delay: 0,
   });
 }
 
-// Clean up old completed jobs
-export async function cleanupOldJobs() {
-  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  
-  await prisma.job.deleteMany({
-    where: {
-      status: { in: ['completed', 'failed'] },
-      completedAt: { lt: oneWeekAgo },
-    },
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+// Deliveries reuse their log ID so a delivery is only ever queued once
+export async function addWebhookDeliveryJob(deliveryId: string) {
+  return webhookQueue.add('deliver-webhook', { deliveryId } as WebhookDeliveryJobData, {
+    jobId: deliveryId,
   });
 }
+
+// Image workers currently connected; falls back to IMAGE_WORKER_COUNT when Redis
+// doesn't allow CLIENT LIST
+export async function getImageWorkerCount(): Promise<number> {
+  const fallback = parseInt(process.env.IMAGE_WORKER_COUNT || '1');
+
+  try {
+    const workers = await imageProcessingQueue.getWorkers();
+    return workers?.length || fallback;
+  } catch (error) {
+    console.error('Error listing image workers:', error);
+    return fallback;
+  }
+}
+
+// Remove a job from its bull queue if no worker has picked it up yet.
+// Active jobs are locked by their worker and stop on their own once cancelled.
+export async function removeQueuedJob(jobId: string, type: JobType): Promise<boolean> {
+  const queue = type === 'watermark_generation' ? watermarkQueue : imageProcessingQueue;
+  const job = await queue.getJob(jobId);
+
+  if (!job) {
+    return false;
+  }
+
+  const state = await job.getState();
+  if (!['waiting', 'delayed', 'paused'].includes(state)) {
+    return false;
+  }
+
+  await job.remove();
+  return true;
+}
@@ -0,0 +1,32 @@
+/**
+ * Redis Connections
+ * Shared connection settings for the bull queues and pub/sub clients
+ */
+
+import { createClient } from 'redis';
+
+// Redis connection configuration
+export const redisConfig = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+  db: parseInt(process.env.REDIS_DB || '0'),
+};
+
+/**
+ * Create and connect a standalone Redis client
+ */
+export async function createRedisClient() {
+  const client = createClient({
+    socket: { host: redisConfig.host, port: redisConfig.port },
+    password: redisConfig.password,
+    database: redisConfig.db,
+  });
+
+  client.on('error', (error) => console.error('Redis client error:', error));
+  await client.connect();
+
+  return client;
+}
+
+export type RedisClient = Awaited<ReturnType<typeof createRedisClient>>;
@@ -0,0 +1,160 @@
+/**
+ * Remote URLs
+ * Guards for server-side requests to URLs supplied by users
+ */
+
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { AppError } from '@/types';
+
+// Addresses a server-side request must never reach: private networks, loopback,
+// link-local (including cloud metadata endpoints), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable; IPv4-mapped IPv6 addresses are checked as IPv4
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse a URL and check that it uses an allowed protocol and that every address its
+ * host resolves to is public. Throws UNSAFE_URL otherwise.
+ */
+export async function assertPublicUrl(
+  url: string,
+  protocols: string[] = ['https:', 'http:']
+): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new AppError('Invalid URL', 'UNSAFE_URL', 400);
+  }
+
+  if (!protocols.includes(parsed.protocol)) {
+    throw new AppError(`URL must use ${protocols.join(' or ')}`, 'UNSAFE_URL', 400);
+  }
+
+  // IPv6 literals keep their brackets in hostname
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new AppError(`Could not resolve ${host}`, 'UNSAFE_URL', 400);
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new AppError(`${host} does not resolve to a public address`, 'UNSAFE_URL', 400);
+  }
+
+  return parsed;
+}
+
+// Resolves hosts for the connection itself, so the address connected to is the one
+// checked and a second DNS answer cannot point the request somewhere private
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+    } else if (
+      addresses.length === 0 ||
+      !addresses.every((entry) => isPublicAddress(entry.address))
+    ) {
+      callback(
+        new AppError(`${hostname} does not resolve to a public address`, 'UNSAFE_URL', 400),
+        ''
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export interface PublicUrlRequest {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+  protocols?: string[];
+  signal?: AbortSignal;
+}
+
+export interface PublicUrlResponse {
+  status: number;
+  ok: boolean;
+  body: Buffer;
+}
+
+/**
+ * Send a request to a URL that must stay on public hosts, connecting only to addresses
+ * that pass the same check as assertPublicUrl. Redirects are returned, never followed.
+ */
+export async function requestPublicUrl(
+  url: string,
+  options: PublicUrlRequest = {}
+): Promise<PublicUrlResponse> {
+  // Rejects bad protocols and private IP literals, which connect without a lookup
+  const parsed = await assertPublicUrl(url, options.protocols);
+  const client = parsed.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      parsed,
+      {
+        method: options.method ?? 'GET',
+        headers: options.headers,
+        lookup: publicLookup,
+        signal: options.signal,
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          const status = response.statusCode ?? 0;
+          resolve({ status, ok: status >= 200 && status < 300, body: Buffer.concat(chunks) });
+        });
+      }
+    );
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Output Renditions
+ * Sized and encoded variants of each processed image: web, print and social crops
+ */
+
+import sharp from 'sharp';
+import type { RenditionSet } from '@/types';
+
+export type RenditionFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface RenditionSpec {
+  name: string;
+  width: number;
+  height: number;
+  // 'inside' keeps the whole image; 'cover' crops to the exact aspect ratio
+  fit: 'inside' | 'cover';
+  // Defaults to the requested output format
+  format?: RenditionFormat;
+  quality?: number;
+  dpi?: number;
+}
+
+export interface Rendition {
+  name: string;
+  format: RenditionFormat;
+  width: number;
+  height: number;
+  size: number;
+  hasAlpha: boolean;
+  dpi?: number;
+  url?: string;
+}
+
+export interface RenderedRendition extends Rendition {
+  buffer: Buffer;
+}
+
+// The rendition stored as the image's processedUrl
+export const PRIMARY_RENDITION = 'web';
+
+export const RENDITION_SETS: Record<RenditionSet, RenditionSpec[]> = {
+  web: [
+    { name: 'web', width: 1920, height: 1080, fit: 'inside' },
+    { name: 'thumbnail', width: 300, height: 200, fit: 'cover', format: 'jpeg', quality: 70 },
+  ],
+  // 12 inches on the long side at 300 DPI
+  print: [{ name: 'print', width: 3600, height: 3600, fit: 'inside', quality: 95, dpi: 300 }],
+  social: [
+    { name: 'social-square', width: 1080, height: 1080, fit: 'cover' },
+    { name: 'social-portrait', width: 1080, height: 1350, fit: 'cover' },
+    { name: 'social-story', width: 1080, height: 1920, fit: 'cover' },
+    { name: 'social-landscape', width: 1200, height: 628, fit: 'cover' },
+  ],
+};
+
+export const RENDITION_CONTENT_TYPES: Record<RenditionFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export const RENDITION_EXTENSIONS: Record<RenditionFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+/**
+ * Map a requested output format (e.g. 'jpg') to a rendition format
+ */
+export function normalizeFormat(format?: string): RenditionFormat {
+  const normalized = format === 'jpg' ? 'jpeg' : format;
+  return normalized && Object.hasOwn(RENDITION_CONTENT_TYPES, normalized)
+    ? (normalized as RenditionFormat)
+    : 'jpeg';
+}
+
+/**
+ * Check a list of requested rendition sets
+ */
+export function isValidRenditionSets(sets: unknown): sets is RenditionSet[] {
+  return Array.isArray(sets) && sets.every((set) => Object.hasOwn(RENDITION_SETS, set));
+}
+
+/**
+ * Renditions to produce for the requested sets. Web renditions are always included, and
+ * images with transparency get a PNG cutout when the requested format can't keep it.
+ */
+export function resolveRenditionSpecs(
+  sets: RenditionSet[] = [],
+  format: RenditionFormat,
+  hasAlpha: boolean
+): (RenditionSpec & { format: RenditionFormat })[] {
+  const specs = Array.from(new Set<RenditionSet>(['web', ...sets])).flatMap(
+    (set) => RENDITION_SETS[set]
+  );
+
+  if (hasAlpha && format === 'jpeg') {
+    specs.push({ name: 'cutout', width: 1920, height: 1080, fit: 'inside', format: 'png' });
+  }
+
+  return specs.map((spec) => ({ ...spec, format: spec.format ?? format }));
+}
+
+export interface RenderOptions {
+  quality?: number;
+  // Applied to the resized image, as a lossless PNG, before it is encoded
+  beforeEncode?: (image: Buffer) => Promise<Buffer>;
+}
+
+/**
+ * Encode one rendition from the full-size master
+ */
+export async function renderRendition(
+  master: Buffer,
+  spec: RenditionSpec & { format: RenditionFormat },
+  options: RenderOptions = {}
+): Promise<RenderedRendition> {
+  const quality = spec.quality ?? options.quality ?? 85;
+
+  const resized = await sharp(master)
+    .resize(spec.width, spec.height, {
+      fit: spec.fit,
+      // Social crops need exact dimensions; everything else is never upscaled here
+      withoutEnlargement: spec.fit === 'inside',
+      position: sharp.strategy.attention,
+    })
+    .png()
+    .toBuffer();
+
+  let image = sharp(options.beforeEncode ? await options.beforeEncode(resized) : resized);
+
+  switch (spec.format) {
+    case 'jpeg':
+      // JPEG has no alpha channel, so transparent areas become white
+      image = image.flatten({ background: '#ffffff' }).jpeg({ quality, progressive: true });
+      break;
+    case 'png':
+      image = image.png({ compressionLevel: 9 });
+      break;
+    case 'webp':
+      image = image.webp({ quality, alphaQuality: 100 });
+      break;
+    case 'avif':
+      // Higher efforts are several times slower for little size benefit
+      image = image.avif({ quality, effort: 2 });
+      break;
+  }
+
+  if (spec.dpi) {
+    image = image.withMetadata({ density: spec.dpi });
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+
+  return {
+    name: spec.name,
+    format: spec.format,
+    width: info.width,
+    height: info.height,
+    size: data.length,
+    hasAlpha: info.channels === 4,
+    ...(spec.dpi && { dpi: spec.dpi }),
+    buffer: data,
+  };
+}
@@ -1,17 +1,29 @@
 import Replicate from 'replicate';
-import type { ImageType } from '@/types';
+import type { ImageType, ProcessingSettings } from '@/types';
+import type { AIOperation, AIProvider, AIProviderName } from './ai-provider';
+import { localProvider } from './local-ai-provider';
+import { buildPipelineSpec, executePipeline } from './pipeline';
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN!,
 });
 
+// Model versions used for each pipeline operation
+export const REPLICATE_MODELS: Record<AIOperation, `${string}/${string}:${string}`> = {
+  generate: 'stability-ai/sdxl:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b',
+  removeBackground: 'cjwbw/rembg:fb8af171cfa1616ddcf1242c093f9c46bcada5ad4cf6f2fbe8b81b330ec5c003',
+  enhanceFace: 'tencentarc/gfpgan:9283608cc6b7be6b65a8e44983db012355fde4132009bf99d976b2f0896856a3',
+  upscale:
+    'nightmareai/real-esrgan:42fed1c4974146d4d2414e2be2c5277c7fcf05fcc3a73abf41610695738c1d7b',
+};
+
 // Hidden prompts for different image types
 const PROMPTS = {
   person: `professional studio portrait photography, high-end fashion photography, 
     studio lighting setup with softbox and key light, clean white or gradient background, 
     sharp focus on subject, professional color grading, commercial photography quality, 
     8k resolution, photorealistic, professional headshot style`,
-  
+
   'person-pet': `professional studio portrait photography with pet, high-end pet photography, 
     studio lighting setup, clean background, both subject and pet in sharp focus, 
     heartwarming composition, professional color grading, commercial photography quality, 
@@ -22,9 +34,24 @@ const NEGATIVE_PROMPT = `blurry, low quality, amateur, bad lighting, distorted,
   deformed, ugly, bad anatomy, watermark, text, signature, cartoon, painting, 
   illustration, 3d render, low resolution, pixelated`;
 
+/**
+ * Hidden prompts used for generation when the user supplies none
+ */
+export function getDefaultPrompts(imageType: ImageType): {
+  prompt: string;
+  negativePrompt: string;
+} {
+  return {
+    prompt: PROMPTS[imageType],
+    negativePrompt: NEGATIVE_PROMPT,
+  };
+}
+
 export interface ProcessImageOptions {
   imageUrl: string;
   imageType: ImageType;
+  prompt?: string;
+  negativePrompt?: string;
   numOutputs?: number;
   guidanceScale?: number;
   numInferenceSteps?: number;
@@ -45,28 +72,27 @@ export async function processImageWithAI(
   const {
     imageUrl,
     imageType,
+    prompt = PROMPTS[imageType],
+    negativePrompt = NEGATIVE_PROMPT,
     numOutputs = 1,
     guidanceScale = 7.5,
     numInferenceSteps = 50,
   } = options;
 
   try {
-    const output = await replicate.run(
-      'stability-ai/sdxl:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b',
-      {
-        input: {
-          image: imageUrl,
-          prompt: PROMPTS[imageType],
-          negative_prompt: NEGATIVE_PROMPT,
-          num_outputs: numOutputs,
-          guidance_scale: guidanceScale,
-          num_inference_steps: numInferenceSteps,
-          scheduler: 'K_EULER',
-          refine: 'expert_ensemble_refiner',
-          high_noise_frac: 0.8,
-        },
-      }
-    );
+    const output = await replicate.run(REPLICATE_MODELS.generate, {
+      input: {
+        image: imageUrl,
+        prompt,
+        negative_prompt: negativePrompt,
+        num_outputs: numOutputs,
+        guidance_scale: guidanceScale,
+        num_inference_steps: numInferenceSteps,
+        scheduler: 'K_EULER',
+        refine: 'expert_ensemble_refiner',
+        high_noise_frac: 0.8,
+      },
+    });
 
     return {
       outputs: Array.isArray(output) ? output : [output as string],
@@ -84,14 +110,11 @@ export async function processImageWithAI(
  */
 export async function removeBackground(imageUrl: string): Promise<string> {
   try {
-    const output = await replicate.run(
-      'cjwbw/rembg:fb8af171cfa1616ddcf1242c093f9c46bcada5ad4cf6f2fbe8b81b330ec5c003',
-      {
-        input: {
-          image: imageUrl,
-        },
-      }
-    );
+    const output = await replicate.run(REPLICATE_MODELS.removeBackground, {
+      input: {
+        image: imageUrl,
+      },
+    });
 
     return Array.isArray(output) ? output[0] : (output as string);
   } catch (error) {
@@ -105,16 +128,13 @@ export async function removeBackground(imageUrl: string): Promise<string> {
  */
 export async function enhanceFace(imageUrl: string): Promise<string> {
   try {
-    const output = await replicate.run(
-      'tencentarc/gfpgan:9283608cc6b7be6b65a8e44983db012355fde4132009bf99d976b2f0896856a3',
-      {
-        input: {
-          img: imageUrl,
-          version: 'v1.4',
-          scale: 2,
-        },
-      }
-    );
+    const output = await replicate.run(REPLICATE_MODELS.enhanceFace, {
+      input: {
+        img: imageUrl,
+        version: 'v1.4',
+        scale: 2,
+      },
+    });
 
     return Array.isArray(output) ? output[0] : (output as string);
   } catch (error) {
@@ -128,16 +148,13 @@ export async function enhanceFace(imageUrl: string): Promise<string> {
  */
 export async function upscaleImage(imageUrl: string, scale: number = 2): Promise<string> {
   try {
-    const output = await replicate.run(
-      'nightmareai/real-esrgan:42fed1c4974146d4d2414e2be2c5277c7fcf05fcc3a73abf41610695738c1d7b',
-      {
-        input: {
-          image: imageUrl,
-          scale,
-          face_enhance: true,
-        },
-      }
-    );
+    const output = await replicate.run(REPLICATE_MODELS.upscale, {
+      input: {
+        image: imageUrl,
+        scale,
+        face_enhance: true,
+      },
+    });
 
     return Array.isArray(output) ? output[0] : (output as string);
   } catch (error) {
@@ -146,33 +163,40 @@ export async function upscaleImage(imageUrl: string, scale: number = 2): Promise
   }
 }
 
+export const replicateProvider: AIProvider = {
+  name: 'replicate',
+  models: REPLICATE_MODELS,
+  generate: async (options) => (await processImageWithAI(options)).outputs,
+  removeBackground,
+  enhanceFace,
+  upscale: upscaleImage,
+};
+
+/**
+ * Resolve the configured AI provider.
+ * AI_PROVIDER selects explicitly; otherwise Replicate is used when a token is set.
+ */
+export function getAIProvider(name?: AIProviderName): AIProvider {
+  const selected =
+    name ||
+    (process.env.AI_PROVIDER as AIProviderName | undefined) ||
+    (process.env.REPLICATE_API_TOKEN ? 'replicate' : 'local');
+
+  return selected === 'local' ? localProvider : replicateProvider;
+}
+
 /**
  * Complete image processing pipeline
  */
 export async function processImagePipeline(
   imageUrl: string,
-  imageType: ImageType
+  imageType: ImageType,
+  settings: ProcessingSettings = {},
+  provider: AIProvider = getAIProvider()
 ): Promise<string[]> {
   try {
-    // Step 1: Remove background
-    const noBgImage = await removeBackground(imageUrl);
-
-    // Step 2: Enhance face
-    const enhancedImage = await enhanceFace(noBgImage);
-
-    // Step 3: Generate professional background
-    const result = await processImageWithAI({
-      imageUrl: enhancedImage,
-      imageType,
-      numOutputs: 3,
-    });
-
-    // Step 4: Upscale final images
-    const upscaledImages = await Promise.all(
-      result.outputs.map((url) => upscaleImage(url, 2))
-    );
-
-    return upscaledImages;
+    const spec = buildPipelineSpec(imageType, settings);
+    return await executePipeline(spec, imageUrl, provider);
   } catch (error) {
     console.error('Error in image processing pipeline:', error);
     throw new Error('Failed to process image');
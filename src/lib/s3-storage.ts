@@ -0,0 +1,219 @@
+/**
+ * S3 Storage
+ * Storage backend for S3 and S3-compatible services such as Cloudflare R2
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageAdapter, StoredObject, StoredPart } from './storage';
+
+const DEFAULT_SIGNED_URL_EXPIRY = 3600; // seconds
+
+let client: S3Client | null = null;
+
+function getClient(): S3Client {
+  client ??= new S3Client({
+    region: process.env.STORAGE_REGION || 'auto',
+    endpoint: process.env.STORAGE_ENDPOINT,
+    credentials: {
+      accessKeyId: process.env.STORAGE_KEY!,
+      secretAccessKey: process.env.STORAGE_SECRET!,
+    },
+  });
+  return client;
+}
+
+function bucket(): string {
+  if (!process.env.STORAGE_BUCKET) {
+    throw new Error('STORAGE_BUCKET is not configured');
+  }
+  return process.env.STORAGE_BUCKET;
+}
+
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+}
+
+export const s3Storage: StorageAdapter = {
+  name: 's3',
+
+  multipart: {
+    async create(key, options = {}) {
+      const { UploadId } = await getClient().send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket(),
+          Key: key,
+          ContentType: options.contentType,
+          CacheControl: options.cacheControl,
+          Metadata: options.metadata,
+        })
+      );
+      return UploadId!;
+    },
+
+    async getPartUrl(key, uploadId, partNumber, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+      const command = new UploadPartCommand({
+        Bucket: bucket(),
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+      return getSignedUrl(getClient(), command, { expiresIn });
+    },
+
+    async listParts(key, uploadId) {
+      const parts: StoredPart[] = [];
+      let marker: string | undefined;
+
+      do {
+        const page = await getClient().send(
+          new ListPartsCommand({
+            Bucket: bucket(),
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker,
+          })
+        );
+        for (const part of page.Parts ?? []) {
+          parts.push({ partNumber: part.PartNumber!, size: part.Size ?? 0, etag: part.ETag });
+        }
+        marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+      } while (marker);
+
+      return parts;
+    },
+
+    async complete(key, uploadId, parts) {
+      await getClient().send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket(),
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+          },
+        })
+      );
+    },
+
+    async abort(key, uploadId) {
+      await getClient().send(
+        new AbortMultipartUploadCommand({ Bucket: bucket(), Key: key, UploadId: uploadId })
+      );
+    },
+  },
+
+  async put(key, body, options = {}) {
+    await getClient().send(
+      new PutObjectCommand({
+        Bucket: bucket(),
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+        Metadata: options.metadata,
+      })
+    );
+  },
+
+  async get(key) {
+    try {
+      const { Body } = await getClient().send(new GetObjectCommand({ Bucket: bucket(), Key: key }));
+      return Body ? Buffer.from(await Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async head(key) {
+    try {
+      const object = await getClient().send(new HeadObjectCommand({ Bucket: bucket(), Key: key }));
+      return {
+        key,
+        size: object.ContentLength ?? 0,
+        contentType: object.ContentType,
+        lastModified: object.LastModified,
+        metadata: object.Metadata,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await getClient().send(new DeleteObjectCommand({ Bucket: bucket(), Key: key }));
+  },
+
+  async list(prefix, options = {}) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await getClient().send(
+        new ListObjectsV2Command({
+          Bucket: bucket(),
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+          MaxKeys: options.limit ? Math.min(1000, options.limit - objects.length) : undefined,
+        })
+      );
+
+      for (const object of page.Contents ?? []) {
+        objects.push({
+          key: object.Key!,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified,
+        });
+      }
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken && (!options.limit || objects.length < options.limit));
+
+    return objects;
+  },
+
+  async getSignedUrl(key, options = {}) {
+    const { method = 'GET', expiresIn = DEFAULT_SIGNED_URL_EXPIRY } = options;
+    const command =
+      method === 'PUT'
+        ? new PutObjectCommand({
+            Bucket: bucket(),
+            Key: key,
+            ContentType: options.contentType,
+            ContentLength: options.contentLength,
+            CacheControl: options.cacheControl,
+            Metadata: options.metadata,
+            Tagging: options.tags?.length
+              ? options.tags.map((tag) => `${tag}=true`).join('&')
+              : undefined,
+            ...(options.public && { ACL: 'public-read' as const }),
+          })
+        : new GetObjectCommand({ Bucket: bucket(), Key: key });
+
+    return getSignedUrl(getClient(), command, { expiresIn });
+  },
+
+  getPublicUrl(key) {
+    return process.env.STORAGE_PUBLIC_URL
+      ? `${process.env.STORAGE_PUBLIC_URL}/${key}`
+      : `${process.env.STORAGE_ENDPOINT}/${process.env.STORAGE_BUCKET}/${key}`;
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * Job Scheduler
+ * Plan-aware priorities and per-user concurrency caps so one bulk upload can't starve other users
+ */
+
+import type { Job, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getStoragePlan } from './limits';
+import type { StoragePlan } from './limits';
+import type { QueuePriority } from '@/types';
+
+// Bull runs lower numbers first
+export const REQUEST_PRIORITIES: Record<QueuePriority, number> = { high: 1, normal: 5, low: 10 };
+
+// Added to the request priority; VIP priority processing is a plan feature
+export const PLAN_PRIORITY_OFFSETS: Record<StoragePlan, number> = {
+  vip: 0,
+  pro: 2,
+  basic: 4,
+  free: 6,
+};
+
+// Jobs a user may have in the queue or running at once; the rest wait their turn
+export const PLAN_CONCURRENCY: Record<StoragePlan, number> = {
+  free: 1,
+  basic: 2,
+  pro: 4,
+  vip: 8,
+};
+
+/**
+ * Bull priority for a user's job from their plan and the requested priority
+ */
+export async function getJobPriority(
+  userId: string,
+  requested: QueuePriority = 'normal'
+): Promise<number> {
+  const plan = await getStoragePlan(userId);
+  return (REQUEST_PRIORITIES[requested] ?? REQUEST_PRIORITIES.normal) + PLAN_PRIORITY_OFFSETS[plan];
+}
+
+/**
+ * How many jobs a user may have handed to the queue at once
+ */
+export async function getConcurrencyLimit(userId: string): Promise<number> {
+  return PLAN_CONCURRENCY[await getStoragePlan(userId)];
+}
+
+/**
+ * A user's jobs that count against their cap: handed to bull, running or awaiting a retry
+ */
+export function inFlightJobsWhere(userId: string): Prisma.JobWhereInput {
+  return {
+    userId,
+    type: 'image_processing',
+    OR: [
+      { status: 'queued', scheduledAt: { not: null } },
+      { status: { in: ['processing', 'retrying'] } },
+    ],
+  };
+}
+
+// Queued jobs already handed to bull, in the order bull will run them
+const scheduledWhere: Prisma.JobWhereInput = {
+  type: 'image_processing',
+  status: 'queued',
+  scheduledAt: { not: null },
+};
+
+/**
+ * Jobs that will start before this one.
+ * Held-back jobs also wait for the user's own earlier jobs to be released.
+ */
+export function jobsAheadWhere(job: Job): Prisma.JobWhereInput {
+  if (job.scheduledAt) {
+    return {
+      ...scheduledWhere,
+      OR: [
+        { priority: { lt: job.priority } },
+        { priority: job.priority, scheduledAt: { lt: job.scheduledAt } },
+      ],
+    };
+  }
+
+  return {
+    OR: [
+      scheduledWhere,
+      {
+        userId: job.userId,
+        type: 'image_processing',
+        OR: [
+          { status: { in: ['processing', 'retrying'] } },
+          { status: 'queued', scheduledAt: null, priority: { lt: job.priority } },
+          {
+            status: 'queued',
+            scheduledAt: null,
+            priority: job.priority,
+            createdAt: { lt: job.createdAt },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Number of jobs that will start before this one
+ */
+export async function getQueuePosition(job: Job): Promise<number> {
+  return prisma.job.count({ where: jobsAheadWhere(job) });
+}
+
+/**
+ * Queue position a new job from this user would get
+ */
+export async function getNewJobPosition(
+  userId: string,
+  requested: QueuePriority = 'normal'
+): Promise<number> {
+  const [priority, limit] = await Promise.all([
+    getJobPriority(userId, requested),
+    getConcurrencyLimit(userId),
+  ]);
+
+  const [ahead, inFlight, heldBack] = await Promise.all([
+    prisma.job.count({ where: { ...scheduledWhere, priority: { lte: priority } } }),
+    prisma.job.count({ where: inFlightJobsWhere(userId) }),
+    prisma.job.count({
+      where: { userId, type: 'image_processing', status: 'queued', scheduledAt: null },
+    }),
+  ]);
+
+  // At the cap, the job also waits behind the user's own held-back jobs
+  return inFlight >= limit ? ahead + heldBack + 1 : ahead;
+}
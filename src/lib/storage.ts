@@ -0,0 +1,116 @@
+/**
+ * Storage Adapter Interface
+ * Contract shared by every object storage backend, and selection of the configured one
+ */
+
+import { s3Storage } from './s3-storage';
+import { supabaseStorage } from './supabase-storage';
+import { localFileStorage } from './local-storage';
+
+export type StorageBackendName = 's3' | 'supabase' | 'local';
+
+// Direct uploads land here and only reach their final key once inspected; nothing under it is served
+export const STAGING_PREFIX = 'staging/';
+
+export interface PutOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+  cacheControl?: string;
+}
+
+export interface SignedUrlOptions extends PutOptions {
+  // GET to download, PUT to upload directly from the client
+  method?: 'GET' | 'PUT';
+  expiresIn?: number; // seconds
+  // Exact size a PUT must have; other sizes are refused where the backend can enforce it
+  contentLength?: number;
+  // Backend-specific; ignored where unsupported
+  tags?: string[];
+  public?: boolean;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredPart {
+  partNumber: number;
+  size: number;
+  etag?: string;
+}
+
+// Native multipart uploads, where parts are uploaded straight to presigned URLs
+export interface MultipartStorage {
+  create(key: string, options?: PutOptions): Promise<string>;
+  getPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn?: number
+  ): Promise<string>;
+  listParts(key: string, uploadId: string): Promise<StoredPart[]>;
+  complete(key: string, uploadId: string, parts: StoredPart[]): Promise<void>;
+  abort(key: string, uploadId: string): Promise<void>;
+}
+
+export interface StorageAdapter {
+  name: StorageBackendName;
+  // Backends without it get multipart uploads emulated with one object per part
+  multipart?: MultipartStorage;
+  put(key: string, body: Buffer | string, options?: PutOptions): Promise<void>;
+  // null when the object doesn't exist
+  get(key: string): Promise<Buffer | null>;
+  head(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // Every object under the prefix, recursively
+  list(prefix: string, options?: { limit?: number }): Promise<StoredObject[]>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  getPublicUrl(key: string): string;
+}
+
+/**
+ * Resolve the configured storage backend.
+ * STORAGE_BACKEND selects explicitly; otherwise S3/R2 is used when a bucket is set,
+ * then Supabase when configured, then the local filesystem.
+ */
+export function getStorage(name?: StorageBackendName): StorageAdapter {
+  const selected =
+    name ||
+    (process.env.STORAGE_BACKEND as StorageBackendName | undefined) ||
+    (process.env.STORAGE_BUCKET
+      ? 's3'
+      : process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+        ? 'supabase'
+        : 'local');
+
+  switch (selected) {
+    case 's3':
+      return s3Storage;
+    case 'supabase':
+      return supabaseStorage;
+    case 'local':
+      return localFileStorage;
+    default:
+      throw new Error(`Unknown storage backend: ${selected}`);
+  }
+}
+
+/**
+ * Storage key for one of the configured backend's public URLs, or null for other URLs
+ */
+export function storageKeyFromUrl(
+  url: string,
+  storage: StorageAdapter = getStorage()
+): string | null {
+  const base = storage.getPublicUrl('');
+  if (!base || !url.startsWith(base)) {
+    return null;
+  }
+
+  const key = decodeURIComponent(url.slice(base.length).split('?')[0]);
+  return key || null;
+}
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import type { AppState, User, ImageData, Language } from '@/types';
+import type { MetadataPolicy } from '@/lib/image-metadata';
 
 // Enhanced interfaces for comprehensive state management
 interface EnhancedImageData extends ImageData {
@@ -53,6 +54,7 @@ interface UserPreferences {
     sharing: boolean;
     publicGallery: boolean;
     dataCollection: boolean;
+    metadataPolicy: MetadataPolicy; // EXIF/XMP/IPTC kept on uploaded photos
   };
   ui: {
     compactMode: boolean;
@@ -433,6 +435,7 @@ const initialState: Omit<EnhancedAppState, keyof EnhancedActions> = {
       sharing: false,
       publicGallery: false,
       dataCollection: true,
+      metadataPolicy: 'strip-all',
     },
     ui: {
       compactMode: false,
@@ -0,0 +1,132 @@
+/**
+ * Supabase Storage
+ * Storage backend for a Supabase Storage bucket
+ */
+
+import { supabaseAdmin } from './supabase';
+import type { StorageAdapter, StoredObject } from './storage';
+
+const DEFAULT_SIGNED_URL_EXPIRY = 3600; // seconds
+// Supabase lists one folder level per request
+const LIST_PAGE_SIZE = 1000;
+
+function bucket() {
+  if (!supabaseAdmin) {
+    throw new Error(
+      'Supabase is not configured. Please add NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to your environment variables.'
+    );
+  }
+  return supabaseAdmin.storage.from(process.env.SUPABASE_STORAGE_BUCKET || 'studio-nexora-images');
+}
+
+function isNotFound(error: unknown): boolean {
+  const { status, statusCode } = error as { status?: number; statusCode?: string };
+  // Missing objects come back as 400s carrying a '404' statusCode
+  return status === 404 || statusCode === '404';
+}
+
+export const supabaseStorage: StorageAdapter = {
+  name: 'supabase',
+
+  async put(key, body, options = {}) {
+    const { error } = await bucket().upload(key, body, {
+      contentType: options.contentType,
+      cacheControl: options.cacheControl ?? '3600',
+      metadata: options.metadata,
+      upsert: true,
+    });
+    if (error) {
+      throw error;
+    }
+  },
+
+  async get(key) {
+    const { data, error } = await bucket().download(key);
+    if (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  async head(key) {
+    const { data, error } = await bucket().info(key);
+    if (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+    return {
+      key,
+      size: data.size ?? 0,
+      contentType: data.contentType,
+      lastModified: data.lastModified ? new Date(data.lastModified) : undefined,
+      metadata: data.metadata,
+    };
+  },
+
+  async delete(key) {
+    const { error } = await bucket().remove([key]);
+    if (error) {
+      throw error;
+    }
+  },
+
+  async list(prefix, options = {}) {
+    const objects: StoredObject[] = [];
+    const folder = prefix.replace(/\/$/, '');
+    const pending = [folder];
+
+    while (pending.length && (!options.limit || objects.length < options.limit)) {
+      const current = pending.shift()!;
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await bucket().list(current, { limit: LIST_PAGE_SIZE, offset });
+        if (error) {
+          throw error;
+        }
+
+        for (const entry of data) {
+          const key = current ? `${current}/${entry.name}` : entry.name;
+          // Folders have no id
+          if (!entry.id) {
+            pending.push(key);
+          } else {
+            objects.push({
+              key,
+              size: entry.metadata?.size ?? 0,
+              contentType: entry.metadata?.mimetype,
+              lastModified: new Date(entry.updated_at),
+            });
+          }
+        }
+
+        if (data.length < LIST_PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+
+    return options.limit ? objects.slice(0, options.limit) : objects;
+  },
+
+  async getSignedUrl(key, options = {}) {
+    const { method = 'GET', expiresIn = DEFAULT_SIGNED_URL_EXPIRY } = options;
+
+    // Supabase upload URLs are valid for two hours regardless of expiresIn
+    const { data, error } =
+      method === 'PUT'
+        ? await bucket().createSignedUploadUrl(key, { upsert: true })
+        : await bucket().createSignedUrl(key, expiresIn);
+    if (error) {
+      throw error;
+    }
+    return data.signedUrl;
+  },
+
+  getPublicUrl(key) {
+    return bucket().getPublicUrl(key).data.publicUrl;
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Visible Watermarks
+ * Sharp-based text or logo overlays, placed at a corner/center or tiled across the image
+ */
+
+import sharp from 'sharp';
+import type { WatermarkConfig } from '@/types';
+import { loadImageBuffer } from './local-ai-provider';
+
+// Applied to every free-plan output
+export const FREE_PLAN_WATERMARK: WatermarkConfig = {
+  text: 'Studio Nexora',
+  opacity: 0.35,
+  position: 'center',
+  fontSize: 0,
+  tile: true,
+};
+
+const MARGIN_RATIO = 0.03;
+const LOGO_WIDTH_RATIO = 0.2;
+export const MAX_WATERMARK_TEXT = 100;
+export const MAX_FONT_SIZE = 400;
+// Rough glyph width as a fraction of the font size, used to size the SVG
+const CHAR_WIDTH_RATIO = 0.62;
+
+const GRAVITY: Record<WatermarkConfig['position'], string> = {
+  center: 'centre',
+  'bottom-right': 'southeast',
+  'bottom-left': 'southwest',
+  'top-right': 'northeast',
+  'top-left': 'northwest',
+};
+
+function escapeXml(text: string): string {
+  return text.replace(
+    /[<>&'"]/g,
+    (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!
+  );
+}
+
+// Text rendered as SVG, with a dark outline so it reads on light and dark images
+function textOverlay(text: string, fontSize: number, opacity: number, angle = 0): Buffer {
+  const width = Math.ceil(text.length * fontSize * CHAR_WIDTH_RATIO) + fontSize;
+  const height = Math.ceil(fontSize * 1.6);
+  const size = angle ? Math.ceil(Math.hypot(width, height)) : 0;
+  const [svgWidth, svgHeight] = angle ? [size, Math.ceil(size * 0.6)] : [width, height];
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}">
+      <text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle"
+        transform="rotate(${angle} ${svgWidth / 2} ${svgHeight / 2})"
+        font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="600"
+        fill="#ffffff" fill-opacity="${opacity}"
+        stroke="#000000" stroke-opacity="${opacity * 0.6}" stroke-width="${Math.max(fontSize / 30, 1)}">
+        ${escapeXml(text)}
+      </text>
+    </svg>`
+  );
+}
+
+// Logo scaled to a fraction of the image width, with opacity applied to its alpha channel
+async function logoOverlay(logoUrl: string, imageWidth: number, opacity: number): Promise<Buffer> {
+  const logo = await sharp(await loadImageBuffer(logoUrl))
+    .resize({ width: Math.round(imageWidth * LOGO_WIDTH_RATIO), withoutEnlargement: true })
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+
+  const { width = 1, height = 1 } = await sharp(logo).metadata();
+  const faded = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <rect width="100%" height="100%" fill="#ffffff" fill-opacity="${opacity}"/>
+    </svg>`
+  );
+
+  return sharp(logo)
+    .composite([{ input: faded, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+}
+
+// Pad an overlay so it sits away from the image edge
+async function withMargin(overlay: Buffer, margin: number): Promise<Buffer> {
+  return sharp(overlay)
+    .extend({
+      top: margin,
+      bottom: margin,
+      left: margin,
+      right: margin,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render a visible watermark onto an image. Output keeps the input format.
+ */
+export async function renderWatermark(input: Buffer, config: WatermarkConfig): Promise<Buffer> {
+  const image = sharp(input);
+  const { width = 0, height = 0, format } = await image.metadata();
+
+  if (!config.text && !config.logoUrl) {
+    throw new Error('Watermark needs text or a logo');
+  }
+
+  const opacity = Math.min(Math.max(config.opacity, 0), 1);
+  const text = config.text.slice(0, MAX_WATERMARK_TEXT);
+  // A fontSize of 0 scales the text with the image. Either way the text is kept no wider
+  // than the image, so the SVG raster stays about the image's size whatever was requested.
+  const fontSize = Math.max(
+    Math.min(
+      config.fontSize || Math.max(Math.round(Math.min(width, height) / 18), 12),
+      MAX_FONT_SIZE,
+      Math.floor(width / (text.length * CHAR_WIDTH_RATIO + 1))
+    ),
+    1
+  );
+
+  let overlay = config.logoUrl
+    ? await logoOverlay(config.logoUrl, width, opacity)
+    : textOverlay(text, fontSize, opacity, config.tile ? -30 : 0);
+
+  if (!config.tile) {
+    overlay = await withMargin(overlay, Math.round(Math.min(width, height) * MARGIN_RATIO));
+  }
+
+  // Overlays larger than the image are rejected by sharp
+  const { width: overlayWidth = 0, height: overlayHeight = 0 } = await sharp(overlay).metadata();
+  if (overlayWidth > width || overlayHeight > height) {
+    overlay = await sharp(overlay).resize({ width, height, fit: 'inside' }).png().toBuffer();
+  }
+
+  const output = image.composite([
+    config.tile
+      ? { input: overlay, tile: true }
+      : { input: overlay, gravity: GRAVITY[config.position] },
+  ]);
+
+  return format === 'png' ? output.png().toBuffer() : output.jpeg({ quality: 90 }).toBuffer();
+}
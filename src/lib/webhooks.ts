@@ -0,0 +1,297 @@
+/**
+ * Outgoing Webhooks
+ * Customer callback endpoints, HMAC-signed job notifications and the delivery log
+ */
+
+import crypto from 'crypto';
+import type { Prisma, WebhookDelivery } from '@prisma/client';
+import { prisma } from './prisma';
+import { addWebhookDeliveryJob } from './queue';
+import { serializeJob } from './jobs';
+import { assertPublicUrl, requestPublicUrl } from './remote-url';
+import { AppError } from '@/types';
+
+export type WebhookEvent = 'job.completed' | 'job.failed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['job.completed', 'job.failed'];
+
+// Per-job callback stored on the job input
+export interface JobWebhook {
+  url: string;
+  secret: string;
+}
+
+export const SIGNATURE_HEADER = 'X-Nexora-Signature';
+const DELIVERY_TIMEOUT = 10000;
+const MAX_ENDPOINTS_PER_USER = 10;
+
+/**
+ * Generate a signing secret for an endpoint or job callback
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a payload. Receivers recompute HMAC-SHA256 over `${timestamp}.${body}`.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Production requires https
+function webhookProtocols(): string[] {
+  return process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+}
+
+/**
+ * Check that a callback URL is an absolute http(s) URL on a public host, so deliveries
+ * can't be aimed at internal services
+ */
+export async function validateWebhookUrl(url: string): Promise<{ valid: boolean; error?: string }> {
+  try {
+    await assertPublicUrl(url, webhookProtocols());
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Invalid webhook URL: ${error instanceof Error ? error.message : 'unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Register an account-wide endpoint
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  url: string,
+  events: WebhookEvent[] = WEBHOOK_EVENTS
+) {
+  const validation = await validateWebhookUrl(url);
+  if (!validation.valid) {
+    throw new AppError(validation.error!, 'INVALID_WEBHOOK_URL', 400);
+  }
+
+  const unknown = events.filter((event) => !WEBHOOK_EVENTS.includes(event));
+  if (events.length === 0 || unknown.length > 0) {
+    throw new AppError('Invalid webhook events', 'INVALID_WEBHOOK_EVENTS', 400);
+  }
+
+  const count = await prisma.webhookEndpoint.count({ where: { userId } });
+  if (count >= MAX_ENDPOINTS_PER_USER) {
+    throw new AppError('Webhook endpoint limit reached', 'WEBHOOK_LIMIT_EXCEEDED', 400);
+  }
+
+  return prisma.webhookEndpoint.create({
+    data: { userId, url, events, secret: generateWebhookSecret() },
+  });
+}
+
+/**
+ * List a user's endpoints without their secrets
+ */
+export async function listWebhookEndpoints(userId: string) {
+  return prisma.webhookEndpoint.findMany({
+    where: { userId },
+    select: { id: true, url: true, events: true, active: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Remove one of a user's endpoints. Its delivery log is kept.
+ */
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const { count } = await prisma.webhookEndpoint.deleteMany({
+    where: { id: endpointId, userId },
+  });
+  return count > 0;
+}
+
+/**
+ * Record and queue deliveries for a finished job to every matching endpoint and the
+ * job's own callback URL. Failures are logged so they never fail the job itself.
+ */
+export async function queueJobWebhooks(jobId: string, event: WebhookEvent): Promise<void> {
+  try {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return;
+    }
+
+    const input = job.input as { webhook?: JobWebhook } | null;
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId: job.userId, active: true, events: { has: event } },
+      select: { id: true, url: true },
+    });
+
+    const targets = [
+      ...endpoints.map((endpoint) => ({ endpointId: endpoint.id, url: endpoint.url })),
+      ...(input?.webhook ? [{ endpointId: null, url: input.webhook.url }] : []),
+    ];
+
+    const payload = {
+      event,
+      createdAt: new Date().toISOString(),
+      data: serializeJob(job),
+    } as unknown as Prisma.InputJsonValue;
+
+    for (const target of targets) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: { userId: job.userId, jobId: job.id, event, payload, ...target },
+      });
+      await addWebhookDeliveryJob(delivery.id);
+    }
+  } catch (error) {
+    console.error('Error queueing job webhooks:', error);
+  }
+}
+
+// Secret for a delivery: the endpoint's, or the per-job callback's
+async function getDeliverySecret(delivery: WebhookDelivery): Promise<string | undefined> {
+  if (delivery.endpointId) {
+    const endpoint = await prisma.webhookEndpoint.findUnique({
+      where: { id: delivery.endpointId },
+      select: { secret: true },
+    });
+    return endpoint?.secret;
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: delivery.jobId },
+    select: { input: true },
+  });
+  const webhook = (job?.input as { webhook?: JobWebhook } | null)?.webhook;
+  return webhook?.url === delivery.url ? webhook.secret : undefined;
+}
+
+/**
+ * Attempt one delivery and record the outcome.
+ * Throws when the attempt failed so the queue retries it with backoff.
+ */
+export async function deliverWebhook(deliveryId: string, isFinalAttempt: boolean): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+
+  if (!delivery || delivery.status === 'succeeded') {
+    return;
+  }
+
+  const secret = await getDeliverySecret(delivery);
+  // Checked again on every attempt since the host's DNS may have changed since registration
+  const destination = await validateWebhookUrl(delivery.url);
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  if (!secret) {
+    // Nothing to sign with; retrying cannot help
+    isFinalAttempt = true;
+    error = 'Webhook endpoint or job no longer exists';
+  } else if (!destination.valid) {
+    isFinalAttempt = true;
+    error = destination.error;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      // Connects only to addresses that pass the same check, even if DNS changed since the one above
+      const response = await requestPublicUrl(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Nexora-Webhooks/1.0',
+          'X-Nexora-Event': delivery.event,
+          'X-Nexora-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+        },
+        body,
+        protocols: webhookProtocols(),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Delivery failed';
+    }
+  }
+
+  const now = new Date();
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
+      responseStatus: responseStatus ?? null,
+      error: error ?? null,
+      status: !error ? 'succeeded' : isFinalAttempt ? 'failed' : 'pending',
+      ...(!error && { deliveredAt: now }),
+    },
+  });
+
+  // Missing secrets and blocked hosts are final; anything else is retried
+  if (error && secret && destination.valid) {
+    throw new Error(`Webhook delivery ${deliveryId} failed: ${error}`);
+  }
+}
+
+/**
+ * List a user's deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  userId: string,
+  options: { jobId?: string | null; status?: string | null; page?: number; limit?: number } = {}
+) {
+  const { jobId, status, page = 1, limit = 20 } = options;
+  const where: Prisma.WebhookDeliveryWhereInput = {
+    userId,
+    ...(jobId && { jobId }),
+    ...(status && { status }),
+  };
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+
+  return { deliveries, total };
+}
+
+/**
+ * Send a past delivery again as a new log entry with the same payload
+ */
+export async function redeliverWebhook(userId: string, deliveryId: string) {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, userId },
+  });
+
+  if (!original) {
+    throw new AppError('Webhook delivery not found', 'DELIVERY_NOT_FOUND', 404);
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      userId,
+      endpointId: original.endpointId,
+      jobId: original.jobId,
+      event: original.event,
+      url: original.url,
+      payload: original.payload as Prisma.InputJsonValue,
+      redeliveryOf: original.id,
+    },
+  });
+
+  await addWebhookDeliveryJob(delivery.id);
+  return delivery;
+}
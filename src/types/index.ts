@@ -114,12 +114,37 @@ export interface AppState {
   setLanguage: (language: Language) => void;
 }
 
+// Studio Processing Types
+export type ProcessingQuality = 'standard' | 'high' | 'ultra' | 'maximum';
+export type QueuePriority = 'low' | 'normal' | 'high';
+
+export type RenditionSet = 'web' | 'print' | 'social';
+
+export interface ProcessingSettings {
+  quality?: ProcessingQuality;
+  format?: 'jpg' | 'jpeg' | 'png' | 'webp' | 'avif';
+  // Extra rendition sets to produce alongside the web renditions
+  renditions?: RenditionSet[];
+  numOutputs?: number;
+  customPrompt?: string;
+  // Pipeline steps; omitted flags fall back to the default chain
+  backgroundRemoval?: boolean;
+  faceEnhancement?: boolean;
+  generate?: boolean;
+  noiseReduction?: boolean;
+  colorCorrection?: boolean;
+  upscale?: boolean;
+  upscaleFactor?: number;
+}
+
 // Watermark Types
 export interface WatermarkConfig {
   text: string;
+  logoUrl?: string; // drawn instead of the text when set
   opacity: number;
-  position: 'center' | 'bottom-right' | 'bottom-left';
-  fontSize: number;
+  position: 'center' | 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+  fontSize: number; // 0 scales with the image
+  tile?: boolean; // repeat across the whole image; position is ignored
 }
 
 // Rate Limit Types
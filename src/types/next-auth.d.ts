@@ -0,0 +1,13 @@
+import type { Subscription } from '@prisma/client';
+import type { DefaultSession } from 'next-auth';
+
+// Fields the session callback in lib/auth adds to the signed-in user
+declare module 'next-auth' {
+  interface Session {
+    user?: DefaultSession['user'] & {
+      id: string;
+      role: 'admin' | 'user';
+      subscription?: Subscription | null;
+    };
+  }
+}
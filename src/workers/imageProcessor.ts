@@ -1,132 +1,265 @@
-import { imageProcessingQueue, updateJobStatus } from '../lib/queue';
+import { imageProcessingQueue, releaseUserJobs } from '../lib/queue';
 import type { ImageProcessingJobData } from '../lib/queue';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  updateJobProgress,
+  completeJob,
+  failJob,
+  retryJob,
+  isJobCancelled,
+  buildJobResult,
+} from '../lib/jobs';
+import type { JobOutput } from '../lib/jobs';
+import { refundCredits } from '../lib/credits';
+import { queueJobWebhooks } from '../lib/webhooks';
+import { moveToDeadLetter } from '../lib/dead-letter';
+import { notify } from '../lib/notifications';
 import sharp from 'sharp';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { updateUserUsage } from '../lib/limits';
+import { buildPipelineSpec } from '../lib/pipeline';
+import { runCheckpointedPipeline, clearCheckpoints } from '../lib/checkpoints';
+import { loadImageBuffer } from '../lib/local-ai-provider';
+import { renderWatermark, FREE_PLAN_WATERMARK } from '../lib/watermark';
+import { generateWatermarkId, embedForensicWatermark } from '../lib/forensic-watermark';
+import { buildProvenanceManifest, signManifest, embedManifest } from '../lib/provenance';
+import {
+  resolveRenditionSpecs,
+  renderRendition,
+  normalizeFormat,
+  PRIMARY_RENDITION,
+  RENDITION_CONTENT_TYPES,
+  RENDITION_EXTENSIONS,
+} from '../lib/renditions';
+import type { Rendition, RenderedRendition } from '../lib/renditions';
+import { getAIProvider } from '../lib/replicate';
+import { getStorage } from '../lib/storage';
+import { computePerceptualHash, getSettingsKey } from '../lib/dedupe';
 
-const s3Client = new S3Client({
-  region: process.env.STORAGE_REGION || 'auto',
-  endpoint: process.env.STORAGE_ENDPOINT,
-  credentials: {
-    accessKeyId: process.env.STORAGE_KEY!,
-    secretAccessKey: process.env.STORAGE_SECRET!,
-  },
-});
+// Longest side kept for the master; large enough for the print rendition
+const MAX_MASTER_SIZE = 3600;
 
 // Process image job
 imageProcessingQueue.process('process-image', async (job) => {
   const data: ImageProcessingJobData = job.data;
+  const jobId = job.id.toString();
   
   try {
-    await updateJobStatus(job.id.toString(), 'processing', 0);
+    await updateJobProgress(jobId, 0);
+
+    const spec = data.settings ? buildPipelineSpec(data.imageType, data.settings) : undefined;
+    const provider = getAIProvider();
+
+    // Run the AI pipeline, resuming from the last checkpoint on retries
+    const sourceUrls = spec
+      ? await runCheckpointedPipeline(
+          jobId,
+          spec,
+          data.imageUrl,
+          {
+            provider,
+            onProgress: (completed, total, step) =>
+              updateJobProgress(jobId, Math.round((completed / total) * 60), step),
+            shouldStop: () => isJobCancelled(jobId),
+          }
+        )
+      : [data.imageUrl];
 
-    // Download original image
-    const response = await fetch(data.imageUrl);
-    if (!response.ok) {
-      throw new Error('Failed to download image');
-    }
-    
-    const imageBuffer = Buffer.from(await response.arrayBuffer());
-    await updateJobStatus(job.id.toString(), 'processing', 25);
-
-    // Process image with sharp
-    let processedBuffer = await sharp(imageBuffer)
-      .resize(1920, 1080, { 
-        fit: 'inside', 
-        withoutEnlargement: true 
-      })
-      .jpeg({ 
-        quality: data.processingOptions.quality || 85,
-        progressive: true 
-      })
-      .toBuffer();
-
-    await updateJobStatus(job.id.toString(), 'processing', 50);
-
-    // Generate thumbnail
-    const thumbnailBuffer = await sharp(imageBuffer)
-      .resize(300, 200, { 
-        fit: 'cover' 
-      })
-      .jpeg({ 
-        quality: 70 
-      })
-      .toBuffer();
-
-    await updateJobStatus(job.id.toString(), 'processing', 75);
-
-    // Upload to S3/R2
     const timestamp = Date.now();
-    const processedKey = `processed/${data.userId}/${timestamp}-processed.jpg`;
-    const thumbnailKey = `thumbnails/${data.userId}/${timestamp}-thumb.jpg`;
-
-    // Upload processed image
-    await s3Client.send(new PutObjectCommand({
-      Bucket: process.env.STORAGE_BUCKET!,
-      Key: processedKey,
-      Body: processedBuffer,
-      ContentType: 'image/jpeg',
-      Metadata: {
-        userId: data.userId,
-        originalFilename: data.originalFilename,
-        imageType: data.imageType,
-      },
-    }));
-
-    // Upload thumbnail
-    await s3Client.send(new PutObjectCommand({
-      Bucket: process.env.STORAGE_BUCKET!,
-      Key: thumbnailKey,
-      Body: thumbnailBuffer,
-      ContentType: 'image/jpeg',
-    }));
-
-    // Generate URLs
-    const processedUrl = `${process.env.STORAGE_PUBLIC_URL}/${processedKey}`;
-    const thumbnailUrl = `${process.env.STORAGE_PUBLIC_URL}/${thumbnailKey}`;
-
-    // Generate unique watermark ID
-    const watermarkId = `wm_${timestamp}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Save to database
-    const processedImage = await prisma.processedImage.create({
-      data: {
-        userId: data.userId,
-        originalUrl: data.imageUrl,
-        processedUrl,
-        thumbnailUrl,
-        imageType: data.imageType,
-        status: 'completed',
+    const outputs: JobOutput[] = [];
+
+    // Hashed into each output's provenance manifest
+    const sourceBuffer = await loadImageBuffer(data.imageUrl);
+
+    // Let later submissions of the same photo with the same settings reuse these outputs
+    const sourceHash = await computePerceptualHash(sourceBuffer);
+    const settingsKey = getSettingsKey(data);
+
+    for (const [index, sourceUrl] of sourceUrls.entries()) {
+      // A retry keeps the outputs an earlier attempt stored and counted
+      const stored = await prisma.processedImage.findUnique({
+        where: { jobId_outputIndex: { jobId, outputIndex: index } },
+      });
+      if (stored) {
+        outputs.push({
+          processedImageId: stored.id,
+          processedUrl: stored.processedUrl,
+          thumbnailUrl: stored.thumbnailUrl || undefined,
+          watermarkId: stored.watermarkId || undefined,
+          renditions: stored.renditions as unknown as Rendition[],
+        });
+        continue;
+      }
+
+      // Download pipeline output (or the original image)
+      const downloadedBuffer = await loadImageBuffer(sourceUrl);
+
+      // Free-plan outputs never leave the worker without a watermark
+      const imageBuffer = data.processingOptions.watermark
+        ? await renderWatermark(downloadedBuffer, FREE_PLAN_WATERMARK)
+        : downloadedBuffer;
+
+      // Full-size master every rendition is encoded from, capped at the largest rendition
+      const masterBuffer = await sharp(imageBuffer)
+        .resize(MAX_MASTER_SIZE, MAX_MASTER_SIZE, { 
+          fit: 'inside', 
+          withoutEnlargement: true 
+        })
+        .png()
+        .toBuffer();
+
+      const watermarkId = generateWatermarkId();
+
+      // Encode the requested renditions; background-removed results keep their alpha
+      const { hasAlpha = false } = await sharp(masterBuffer).metadata();
+      const renditionSpecs = resolveRenditionSpecs(
+        data.processingOptions.renditions,
+        normalizeFormat(data.processingOptions.format),
+        hasAlpha
+      );
+      const rendered: RenderedRendition[] = [];
+      for (const renditionSpec of renditionSpecs) {
+        rendered.push(await renderRendition(masterBuffer, renditionSpec, {
+          quality: data.processingOptions.quality || 85,
+          // Marked after cropping so every rendition carries the ID in its own frame
+          beforeEncode: (image) => embedForensicWatermark(image, watermarkId),
+        }));
+      }
+
+      const primary = rendered.find((rendition) => rendition.name === PRIMARY_RENDITION)!;
+
+      // Record how the output was made and sign it; embedded as XMP when the primary is a JPEG
+      const provenance = signManifest(await buildProvenanceManifest({
+        jobId,
+        spec,
+        provider,
+        source: sourceBuffer,
+        output: primary,
+        renditions: rendered.filter((rendition) => rendition !== primary),
         watermarkId,
-        metadata: {
-          originalFilename: data.originalFilename,
-          processingOptions: data.processingOptions,
-          fileSize: processedBuffer.length,
-          dimensions: await sharp(processedBuffer).metadata(),
+        edits: [
+          'resize',
+          ...(data.processingOptions.watermark ? ['visibleWatermark'] : []),
+          'forensicWatermark',
+        ],
+      }));
+      if (primary.format === 'jpeg') {
+        primary.buffer = embedManifest(primary.buffer, provenance);
+        primary.size = primary.buffer.length;
+      }
+
+      // Upload every rendition
+      const storage = getStorage();
+      const renditions: Rendition[] = [];
+      for (const item of rendered) {
+        const { buffer, ...rendition } = item;
+        const key = item === primary
+          ? `processed/${data.userId}/${timestamp}-${index}-processed.${RENDITION_EXTENSIONS[rendition.format]}`
+          : `renditions/${data.userId}/${timestamp}-${index}-${rendition.name}.${RENDITION_EXTENSIONS[rendition.format]}`;
+
+        await storage.put(key, buffer, {
+          contentType: RENDITION_CONTENT_TYPES[rendition.format],
+          metadata: {
+            userId: data.userId,
+            originalFilename: data.originalFilename,
+            imageType: data.imageType,
+            rendition: rendition.name,
+          },
+        });
+
+        renditions.push({ ...rendition, url: storage.getPublicUrl(key) });
+      }
+
+      // Upload sidecar manifest
+      const provenanceKey = `provenance/${data.userId}/${timestamp}-${index}-manifest.json`;
+      await storage.put(provenanceKey, JSON.stringify(provenance, null, 2), {
+        contentType: 'application/json',
+      });
+
+      // Generate URLs
+      const processedUrl = renditions.find((rendition) => rendition.name === PRIMARY_RENDITION)!.url!;
+      const thumbnailUrl = renditions.find((rendition) => rendition.name === 'thumbnail')!.url!;
+      const provenanceUrl = storage.getPublicUrl(provenanceKey);
+      const totalSize = renditions.reduce((sum, rendition) => sum + rendition.size, 0);
+
+      // Save to database
+      const processedImage = await prisma.processedImage.create({
+        data: {
+          userId: data.userId,
+          originalUrl: data.imageUrl,
+          processedUrl,
+          thumbnailUrl,
+          imageType: data.imageType,
+          status: 'completed',
+          watermarkId,
+          provenance: provenance as unknown as Prisma.InputJsonValue,
+          provenanceUrl,
+          renditions: renditions as unknown as Prisma.InputJsonValue,
+          metadata: {
+            originalFilename: data.originalFilename,
+            processingOptions: data.processingOptions,
+            fileSize: primary.size,
+            dimensions: { width: primary.width, height: primary.height, format: primary.format },
+          },
+          processingTime: Date.now() - timestamp,
+          jobId,
+          outputIndex: index,
+          sourceHash,
+          perceptualHash: await computePerceptualHash(masterBuffer),
+          settingsKey,
         },
-        processingTime: Date.now() - timestamp,
-      },
-    });
+      });
+
+      // Count every stored rendition against the user's storage quota
+      await updateUserUsage(data.userId, totalSize);
+
+      outputs.push({ processedImageId: processedImage.id, processedUrl, thumbnailUrl, watermarkId, renditions });
+      await updateJobProgress(jobId, 60 + Math.round(((index + 1) / sourceUrls.length) * 40));
+    }
+
+    const result = buildJobResult(outputs);
+    await completeJob(jobId, result);
 
-    await updateJobStatus(job.id.toString(), 'completed', 100, {
-      processedImageId: processedImage.id,
-      processedUrl,
-      thumbnailUrl,
-      watermarkId,
-    });
+    // Free the user's slot for their next held-back job
+    await releaseUserJobs(data.userId);
+
+    // Intermediate outputs are no longer needed once the job succeeds
+    await clearCheckpoints(jobId);
+
+    await notify(data.userId, `Your ${outputs.length} processed image(s) are ready`, 'success');
+    await queueJobWebhooks(jobId, 'job.completed');
 
     return {
       success: true,
-      processedImageId: processedImage.id,
-      processedUrl,
-      thumbnailUrl,
-      watermarkId,
+      ...result,
     };
 
   } catch (error) {
+    // Cancelled jobs surface here as a stopped pipeline or a rejected status update.
+    // The cancel request already refunded credits, so just drop the intermediate outputs.
+    if (await isJobCancelled(jobId)) {
+      console.log(`Image processing job ${jobId} cancelled`);
+      await clearCheckpoints(jobId);
+      return { success: false, cancelled: true };
+    }
+
     console.error('Image processing failed:', error);
-    await updateJobStatus(job.id.toString(), 'failed', 0, null, error.message);
+    const message = error instanceof Error ? error.message : 'Processing failed';
+
+    // Refund credits once bull has no retries left
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      await failJob(jobId, message);
+      await moveToDeadLetter(jobId, error);
+      // Replays run as new jobs, so stored intermediate outputs are no use any more
+      await clearCheckpoints(jobId);
+      await releaseUserJobs(data.userId);
+      await refundCredits(jobId);
+      await notify(data.userId, `Image processing failed: ${message}`, 'error');
+      await queueJobWebhooks(jobId, 'job.failed');
+    } else {
+      await retryJob(jobId, message);
+    }
+
     throw error;
   }
 });
@@ -0,0 +1,109 @@
+import { watermarkQueue } from '../lib/queue';
+import type { WatermarkJobData } from '../lib/queue';
+import { updateJobProgress, completeJob, failJob, retryJob, buildJobResult } from '../lib/jobs';
+import { prisma } from '../lib/prisma';
+import { updateUserUsage } from '../lib/limits';
+import { loadImageBuffer } from '../lib/local-ai-provider';
+import { renderWatermark } from '../lib/watermark';
+import { getStorage, storageKeyFromUrl } from '../lib/storage';
+
+// Render a watermarked variant of a processed image next to the clean copy
+watermarkQueue.process('add-watermark', async (job) => {
+  const data: WatermarkJobData = job.data;
+  const jobId = job.id.toString();
+
+  try {
+    await updateJobProgress(jobId, 0);
+
+    const image = await prisma.processedImage.findFirst({
+      where: { id: data.imageId, userId: data.userId },
+    });
+    if (!image) {
+      throw new Error(`Processed image ${data.imageId} not found`);
+    }
+
+    const imageBuffer = await loadImageBuffer(data.imageUrl || image.processedUrl);
+    await updateJobProgress(jobId, 30);
+
+    const watermarkedBuffer = await renderWatermark(imageBuffer, {
+      text: data.watermarkText,
+      logoUrl: data.logoUrl,
+      position: data.position,
+      opacity: data.opacity,
+      fontSize: data.fontSize || 0,
+      tile: data.tile,
+    });
+    await updateJobProgress(jobId, 70);
+
+    // PNG sources stay PNG so logo transparency survives
+    const isPng = watermarkedBuffer.subarray(1, 4).toString() === 'PNG';
+    const watermarkedKey = `watermarked/${data.userId}/${image.id}-wm.${isPng ? 'png' : 'jpg'}`;
+
+    const storage = getStorage();
+    // Re-rendering replaces the earlier variant rather than adding to it
+    const previousKey = image.watermarkedUrl && storageKeyFromUrl(image.watermarkedUrl, storage);
+    const previous = previousKey ? await storage.head(previousKey) : null;
+
+    await storage.put(watermarkedKey, watermarkedBuffer, {
+      contentType: isPng ? 'image/png' : 'image/jpeg',
+      metadata: {
+        userId: data.userId,
+        processedImageId: image.id,
+      },
+    });
+
+    const watermarkedUrl = storage.getPublicUrl(watermarkedKey);
+
+    await prisma.processedImage.update({
+      where: { id: image.id },
+      data: { watermarkedUrl },
+    });
+
+    if (previousKey && previousKey !== watermarkedKey) {
+      await storage.delete(previousKey);
+    }
+
+    // The variant counts against the user's storage quota like any other output
+    await updateUserUsage(
+      data.userId,
+      watermarkedBuffer.length - (previous?.size ?? 0),
+      previous ? 0 : 1
+    );
+
+    const result = buildJobResult([{
+      processedImageId: image.id,
+      processedUrl: watermarkedUrl,
+      thumbnailUrl: image.thumbnailUrl || undefined,
+      watermarkId: image.watermarkId || undefined,
+    }]);
+    await completeJob(jobId, result);
+
+    return {
+      success: true,
+      ...result,
+    };
+
+  } catch (error) {
+    console.error('Watermark rendering failed:', error);
+    const message = error instanceof Error ? error.message : 'Watermarking failed';
+
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      await failJob(jobId, message);
+    } else {
+      await retryJob(jobId, message);
+    }
+
+    throw error;
+  }
+});
+
+// Handle job events
+watermarkQueue.on('completed', (job) => {
+  console.log(`Watermark job ${job.id} completed`);
+});
+
+watermarkQueue.on('failed', (job, err) => {
+  console.error(`Watermark job ${job.id} failed:`, err);
+});
+
+export { watermarkQueue };
@@ -0,0 +1,18 @@
+import { webhookQueue } from '../lib/queue';
+import type { WebhookDeliveryJobData } from '../lib/queue';
+import { deliverWebhook } from '../lib/webhooks';
+
+// Deliver webhook; failed attempts throw so bull retries them with exponential backoff
+webhookQueue.process('deliver-webhook', async (job) => {
+  const { deliveryId }: WebhookDeliveryJobData = job.data;
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+  await deliverWebhook(deliveryId, isFinalAttempt);
+});
+
+// Handle job events
+webhookQueue.on('failed', (job, err) => {
+  console.error(`Webhook delivery ${job.data.deliveryId} attempt failed:`, err.message);
+});
+
+export { webhookQueue };
@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import type { Job } from '@prisma/client';
+import { getBatchStatus } from '../../src/lib/batches';
+import type { BatchWithJobs } from '../../src/lib/batches';
+
+function batchOf(statuses: string[], status = 'submitted'): BatchWithJobs {
+  return {
+    id: 'batch-1',
+    userId: 'user-1',
+    imageType: 'portrait',
+    settings: null,
+    status,
+    createdAt: new Date(),
+    jobs: statuses.map((jobStatus, index) => ({ id: `job-${index}`, status: jobStatus }) as Job),
+  };
+}
+
+test.describe('Batch status', () => {
+  test('should be queued until any job starts', async () => {
+    expect(getBatchStatus(batchOf(['queued', 'queued']))).toBe('queued');
+    expect(getBatchStatus(batchOf(['queued', 'processing']))).toBe('processing');
+    expect(getBatchStatus(batchOf(['completed', 'queued']))).toBe('processing');
+  });
+
+  test('should not report an empty batch as completed', async () => {
+    expect(getBatchStatus(batchOf([]))).toBe('queued');
+  });
+
+  test('should summarise finished jobs', async () => {
+    expect(getBatchStatus(batchOf(['completed', 'completed']))).toBe('completed');
+    expect(getBatchStatus(batchOf(['completed', 'failed']))).toBe('partial');
+    expect(getBatchStatus(batchOf(['failed', 'cancelled']))).toBe('failed');
+    expect(getBatchStatus(batchOf(['cancelled', 'cancelled']))).toBe('cancelled');
+  });
+
+  test('should report a failed submission as failed', async () => {
+    expect(getBatchStatus(batchOf(['cancelled'], 'failed'))).toBe('failed');
+    expect(getBatchStatus(batchOf([], 'failed'))).toBe('failed');
+  });
+});
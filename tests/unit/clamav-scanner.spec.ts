@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test';
+import { parseReply } from '../../src/lib/clamav-scanner';
+
+test.describe('ClamAV replies', () => {
+  test('should read clean and infected verdicts', async () => {
+    expect(parseReply('stream: OK\0')).toEqual({ infected: false });
+    expect(parseReply('stream: Eicar-Test-Signature FOUND\0')).toEqual({
+      infected: true,
+      signature: 'Eicar-Test-Signature',
+    });
+  });
+
+  test('should explain a stream over the size limit', async () => {
+    expect(() => parseReply('INSTREAM size limit exceeded. ERROR\0')).toThrow(/StreamMaxLength/);
+  });
+
+  test('should throw for errors and empty replies', async () => {
+    expect(() => parseReply("stream: Can't allocate memory ERROR\0")).toThrow(
+      "clamd: stream: Can't allocate memory ERROR"
+    );
+    expect(() => parseReply('')).toThrow('clamd: empty reply');
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../src/lib/prisma';
+import { debitCredits, getCreditBalance, grantPlanCredits, refundCredits } from '../../src/lib/credits';
+
+interface Entry {
+  userId: string;
+  type: string;
+  amount: number;
+  referenceId?: string;
+}
+
+// In-memory ledger with the table's unique (type, referenceId) constraint
+function fakeLedger() {
+  const entries: Entry[] = [];
+
+  const ledger = {
+    entries,
+    async create({ data }: { data: Entry }) {
+      if (data.referenceId && entries.some((e) => e.type === data.type && e.referenceId === data.referenceId)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        });
+      }
+      entries.push(data);
+      return data;
+    },
+    async findUnique({ where }: { where: { type_referenceId: { type: string; referenceId: string } } }) {
+      const { type, referenceId } = where.type_referenceId;
+      return entries.find((e) => e.type === type && e.referenceId === referenceId) ?? null;
+    },
+    async groupBy({ where }: { where: { userId: string } }) {
+      const types = [...new Set(entries.map((e) => e.type))];
+      return types.map((type) => ({
+        type,
+        _sum: {
+          amount: entries
+            .filter((e) => e.userId === where.userId && e.type === type)
+            .reduce((sum, e) => sum + e.amount, 0),
+        },
+      }));
+    },
+  };
+
+  return ledger;
+}
+
+test.describe('Credit ledger', () => {
+  const client = prisma as unknown as Record<string, unknown>;
+  const original = { creditLedgerEntry: client.creditLedgerEntry, $transaction: client.$transaction };
+  let ledger: ReturnType<typeof fakeLedger>;
+
+  test.beforeEach(() => {
+    ledger = fakeLedger();
+    client.creditLedgerEntry = ledger;
+    client.$transaction = async (run: (tx: unknown) => unknown) => run({ creditLedgerEntry: ledger });
+  });
+
+  test.afterEach(() => {
+    Object.assign(client, original);
+  });
+
+  test('should grant plan credits once per payment', async () => {
+    expect(await grantPlanCredits('user-1', 'pro', 'pi_1')).toBe(true);
+    expect(await grantPlanCredits('user-1', 'pro', 'pi_1')).toBe(false);
+
+    const balance = await getCreditBalance('user-1');
+    expect(balance.available).toBe(500);
+    expect(balance.total).toBe(500);
+  });
+
+  test('should debit a job and refuse debits beyond the balance', async () => {
+    await grantPlanCredits('user-1', 'basic', 'pi_1');
+
+    expect(await debitCredits('user-1', 60, 'job-1')).toEqual({ available: 40, used: 60, total: 100 });
+    await expect(debitCredits('user-1', 41, 'job-2')).rejects.toMatchObject({
+      code: 'INSUFFICIENT_CREDITS',
+      statusCode: 402,
+    });
+    expect(ledger.entries.filter((e) => e.type === 'debit')).toHaveLength(1);
+  });
+
+  test('should refund at most what was debited, and only once', async () => {
+    await grantPlanCredits('user-1', 'basic', 'pi_1');
+    await debitCredits('user-1', 30, 'job-1');
+
+    expect(await refundCredits('job-1', 'job_cancelled', 50)).toBe(30);
+    expect(await refundCredits('job-1')).toBe(0);
+    expect(await getCreditBalance('user-1')).toEqual({ available: 100, used: 0, total: 100 });
+  });
+
+  test('should refund part of a debit', async () => {
+    await grantPlanCredits('user-1', 'basic', 'pi_1');
+    await debitCredits('user-1', 30, 'job-1');
+
+    expect(await refundCredits('job-1', 'job_cancelled', 12)).toBe(12);
+    expect(await getCreditBalance('user-1')).toEqual({ available: 82, used: 18, total: 100 });
+  });
+
+  test('should not refund a job that was never debited', async () => {
+    expect(await refundCredits('job-unknown')).toBe(0);
+  });
+});
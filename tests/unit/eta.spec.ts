@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test';
+import { summarizeDurations, DEFAULT_PROCESSING_TIME } from '../../src/lib/eta';
+
+const samples = (key: string, durations: number[]) =>
+  durations.map((duration) => ({ key, duration }));
+
+test.describe('ETA duration medians', () => {
+  test('should take the median per pipeline and per image type', async () => {
+    const stats = summarizeDurations([
+      ...samples('portrait:generate', [10, 50, 20, 40, 30]),
+      ...samples('portrait:upscale', [1, 2, 3, 4, 5, 6]),
+    ]);
+
+    expect(stats.byPipeline.get('portrait:generate')).toBe(30);
+    expect(stats.byPipeline.get('portrait:upscale')).toBe(3.5);
+    // Eleven samples across both pipelines
+    expect(stats.byImageType.get('portrait')).toBe(6);
+    expect(stats.overall).toBe(6);
+  });
+
+  test('should leave out groups with too few samples', async () => {
+    const stats = summarizeDurations([
+      ...samples('portrait:generate', [10, 20, 30, 40, 50]),
+      ...samples('product:generate', [100, 200]),
+    ]);
+
+    expect(stats.byPipeline.has('product:generate')).toBe(false);
+    expect(stats.byImageType.has('product')).toBe(false);
+    expect(stats.overall).toBe(40);
+  });
+
+  test('should fall back to the default until enough jobs have finished', async () => {
+    const stats = summarizeDurations(samples('portrait:generate', [10, 20]));
+
+    expect(stats.byPipeline.size).toBe(0);
+    expect(stats.overall).toBe(DEFAULT_PROCESSING_TIME);
+  });
+});
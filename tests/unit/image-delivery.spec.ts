@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { getDeliveryUrl, verifyDeliveryUrl } from '../../src/lib/image-delivery';
+
+function parse(url: string) {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  const key = decodeURIComponent(pathname.replace(/^\/api\/images\//, ''));
+  return { key, searchParams };
+}
+
+test.describe('Signed delivery URLs', () => {
+  test.beforeAll(() => {
+    process.env.IMAGE_DELIVERY_SECRET = 'delivery-test-secret';
+  });
+
+  test('should verify the URLs it signs', async () => {
+    const { key, searchParams } = parse(
+      getDeliveryUrl('uploads/user-1/photo one.jpg', { width: 300, format: 'webp' })
+    );
+
+    expect(key).toBe('uploads/user-1/photo one.jpg');
+    expect(searchParams.get('w')).toBe('300');
+    expect(verifyDeliveryUrl(key, searchParams)).toBe(true);
+  });
+
+  test('should reject changed parameters and other keys', async () => {
+    const { key, searchParams } = parse(getDeliveryUrl('uploads/user-1/a.jpg', { width: 300 }));
+
+    expect(verifyDeliveryUrl('uploads/user-2/a.jpg', searchParams)).toBe(false);
+
+    searchParams.set('w', '4000');
+    expect(verifyDeliveryUrl(key, searchParams)).toBe(false);
+  });
+
+  test('should reject expired and unsigned URLs', async () => {
+    const expired = parse(getDeliveryUrl('uploads/a.jpg', {}, { expiresIn: -2 * 60 * 60 }));
+    expect(verifyDeliveryUrl(expired.key, expired.searchParams)).toBe(false);
+
+    const unsigned = parse(getDeliveryUrl('uploads/a.jpg'));
+    unsigned.searchParams.delete('sig');
+    expect(verifyDeliveryUrl(unsigned.key, unsigned.searchParams)).toBe(false);
+  });
+
+  test('should refuse to sign unsafe keys', async () => {
+    expect(() => getDeliveryUrl('../secrets.json')).toThrow('Invalid image key');
+    expect(() => getDeliveryUrl('variants/a.jpg')).toThrow('Invalid image key');
+  });
+});
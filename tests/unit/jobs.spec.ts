@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import { prisma } from '../../src/lib/prisma';
+import { canTransition, updateJobStatus, JOB_TRANSITIONS, TERMINAL_JOB_STATUSES } from '../../src/lib/jobs';
+import type { JobStatus } from '../../src/lib/jobs';
+
+// A job table whose guarded write can be made to lose a race with another writer
+function fakeJobs(status: JobStatus | null, { concurrentWrite = false } = {}) {
+  const writes: unknown[] = [];
+  const transitions: unknown[] = [];
+
+  const tx = {
+    job: {
+      async findUnique() {
+        return status && { userId: 'user-1', status, startedAt: null };
+      },
+      async updateMany(args: unknown) {
+        if (concurrentWrite) return { count: 0 };
+        writes.push(args);
+        return { count: 1 };
+      },
+    },
+    jobTransition: {
+      async create(args: unknown) {
+        transitions.push(args);
+      },
+    },
+  };
+
+  return { tx, writes, transitions };
+}
+
+test.describe('Job transitions', () => {
+  const client = prisma as unknown as Record<string, unknown>;
+  const original = client.$transaction;
+
+  const useJobs = (jobs: ReturnType<typeof fakeJobs>) => {
+    client.$transaction = async (run: (tx: unknown) => unknown) => run(jobs.tx);
+  };
+
+  test.afterEach(() => {
+    client.$transaction = original;
+  });
+
+  test('should only allow the documented transitions', async () => {
+    expect(canTransition('queued', 'processing')).toBe(true);
+    expect(canTransition('processing', 'retrying')).toBe(true);
+    expect(canTransition('retrying', 'processing')).toBe(true);
+    expect(canTransition('processing', 'queued')).toBe(false);
+    expect(canTransition('queued', 'completed')).toBe(false);
+
+    for (const status of TERMINAL_JOB_STATUSES) {
+      expect(JOB_TRANSITIONS[status]).toEqual([]);
+      expect(canTransition(status, 'processing')).toBe(false);
+    }
+  });
+
+  test('should refuse to leave a terminal status', async () => {
+    const jobs = fakeJobs('completed');
+    useJobs(jobs);
+
+    await expect(updateJobStatus('job-1', 'failed')).rejects.toMatchObject({
+      code: 'INVALID_JOB_TRANSITION',
+    });
+    await expect(updateJobStatus('job-1', 'completed', 100)).rejects.toMatchObject({
+      code: 'INVALID_JOB_TRANSITION',
+    });
+    expect(jobs.writes).toEqual([]);
+  });
+
+  test('should report a status changed by another writer as a conflict', async () => {
+    const jobs = fakeJobs('processing', { concurrentWrite: true });
+    useJobs(jobs);
+
+    await expect(updateJobStatus('job-1', 'cancelled')).rejects.toMatchObject({
+      code: 'JOB_CONFLICT',
+      statusCode: 409,
+    });
+    expect(jobs.transitions).toEqual([]);
+  });
+
+  test('should report missing jobs', async () => {
+    useJobs(fakeJobs(null));
+
+    await expect(updateJobStatus('job-1', 'processing')).rejects.toMatchObject({
+      code: 'JOB_NOT_FOUND',
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { prisma } from '../../src/lib/prisma';
+import {
+  checkUserLimits,
+  expireStaleUploads,
+  getStorageUsage,
+  updateUserUsage,
+  PENDING_UPLOAD_TTL,
+  STORAGE_LIMITS,
+} from '../../src/lib/limits';
+import { getStorage, STAGING_PREFIX } from '../../src/lib/storage';
+
+interface FakeFile {
+  id: string;
+  userId: string;
+  filename: string;
+  size: number;
+  status: string;
+  uploadedAt: Date;
+}
+
+const MB = 1024 * 1024;
+
+// Just enough of the subscription, usage and file tables for the quota helpers
+function fakeDatabase() {
+  const usage = new Map<string, { bytesUsed: bigint; fileCount: number }>();
+  const subscriptions = new Map<string, { planType: string; status: string }>();
+  const files: FakeFile[] = [];
+
+  return {
+    usage,
+    subscriptions,
+    files,
+    subscription: {
+      async findUnique({ where }: { where: { userId: string } }) {
+        return subscriptions.get(where.userId) ?? null;
+      },
+    },
+    storageUsage: {
+      async findUnique({ where }: { where: { userId: string } }) {
+        return usage.get(where.userId) ?? null;
+      },
+      async upsert({ where, create, update }: {
+        where: { userId: string };
+        create: { bytesUsed: bigint; fileCount: number };
+        update: { bytesUsed: { increment: bigint }; fileCount: { increment: number } };
+      }) {
+        const current = usage.get(where.userId);
+        usage.set(where.userId, current
+          ? {
+              bytesUsed: current.bytesUsed + update.bytesUsed.increment,
+              fileCount: current.fileCount + update.fileCount.increment,
+            }
+          : { bytesUsed: create.bytesUsed, fileCount: create.fileCount });
+      },
+    },
+    file: {
+      async findMany({ where }: { where: { userId: string; status: string; uploadedAt: { lt: Date } } }) {
+        return files.filter((file) =>
+          file.userId === where.userId && file.status === where.status && file.uploadedAt < where.uploadedAt.lt
+        );
+      },
+      async updateMany({ where, data }: { where: { id: string; status: string }; data: { status: string } }) {
+        const matched = files.filter((file) => file.id === where.id && file.status === where.status);
+        matched.forEach((file) => (file.status = data.status));
+        return { count: matched.length };
+      },
+    },
+  };
+}
+
+test.describe('Storage quota', () => {
+  const client = prisma as unknown as Record<string, unknown>;
+  const original = {
+    subscription: client.subscription,
+    storageUsage: client.storageUsage,
+    file: client.file,
+  };
+  const env = { STORAGE_BACKEND: process.env.STORAGE_BACKEND, STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR };
+  let db: ReturnType<typeof fakeDatabase>;
+
+  test.beforeEach(async () => {
+    db = fakeDatabase();
+    Object.assign(client, { subscription: db.subscription, storageUsage: db.storageUsage, file: db.file });
+    process.env.STORAGE_BACKEND = 'local';
+    process.env.STORAGE_LOCAL_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'limits-'));
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(process.env.STORAGE_LOCAL_DIR!, { recursive: true, force: true });
+    Object.assign(client, original);
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  test('should reserve and release usage', async () => {
+    await updateUserUsage('user-1', 5 * MB);
+    await updateUserUsage('user-1', 3 * MB);
+    await updateUserUsage('user-1', -5 * MB, -1);
+
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: 3 * MB, fileCount: 1 });
+  });
+
+  test('should refuse uploads beyond the plan', async () => {
+    await updateUserUsage('user-1', 90 * MB);
+
+    expect(await checkUserLimits('user-1', 10 * MB)).toMatchObject({ allowed: true, plan: 'free' });
+    expect(await checkUserLimits('user-1', 11 * MB)).toMatchObject({
+      allowed: false,
+      reason: 'Storage limit exceeded',
+    });
+
+    db.subscriptions.set('user-1', { planType: 'basic', status: 'active' });
+    expect(await checkUserLimits('user-1', 11 * MB)).toMatchObject({
+      allowed: true,
+      plan: 'basic',
+      limit: STORAGE_LIMITS.basic.storage,
+    });
+  });
+
+  test('should refuse uploads beyond the file count', async () => {
+    await updateUserUsage('user-1', MB, STORAGE_LIMITS.free.files);
+
+    expect(await checkUserLimits('user-1', MB)).toMatchObject({
+      allowed: false,
+      reason: 'File count limit exceeded',
+    });
+  });
+
+  test('should release abandoned reservations once and discard their staged bytes', async () => {
+    const stale = new Date(Date.now() - PENDING_UPLOAD_TTL - 1000);
+    db.files.push(
+      { id: 'stale', userId: 'user-1', filename: 'uploads/a.jpg', size: 40 * MB, status: 'pending', uploadedAt: stale },
+      { id: 'fresh', userId: 'user-1', filename: 'uploads/b.jpg', size: 20 * MB, status: 'pending', uploadedAt: new Date() },
+      { id: 'done', userId: 'user-1', filename: 'uploads/c.jpg', size: 30 * MB, status: 'completed', uploadedAt: stale }
+    );
+    await updateUserUsage('user-1', 90 * MB, 3);
+    await getStorage().put(`${STAGING_PREFIX}uploads/a.jpg`, Buffer.from('staged'));
+
+    // Expiry runs before every limits check
+    expect(await checkUserLimits('user-1', 50 * MB)).toMatchObject({ allowed: true, currentUsage: 50 * MB });
+    expect(await expireStaleUploads('user-1')).toBe(0);
+
+    expect(db.files.map((file) => file.status)).toEqual(['expired', 'pending', 'completed']);
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: 50 * MB, fileCount: 2 });
+    expect(await getStorage().head(`${STAGING_PREFIX}uploads/a.jpg`)).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { test, expect } from '@playwright/test';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { prisma } from '../../src/lib/prisma';
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  initiateMultipartUpload,
+} from '../../src/lib/multipart-upload';
+import { getStorageUsage } from '../../src/lib/limits';
+import { getStorage, storageKeyFromUrl } from '../../src/lib/storage';
+
+type Row = Record<string, unknown> & { id: string; status: string };
+
+const matches = (row: Row, where: Record<string, unknown>) =>
+  Object.entries(where).every(([field, value]) => row[field] === value);
+
+// The file, usage and settings tables the multipart flow reads and writes.
+// Rows are returned as copies, as Prisma does.
+function fakeDatabase() {
+  const files: Row[] = [];
+  const usage = new Map<string, { bytesUsed: bigint; fileCount: number }>();
+
+  return {
+    files,
+    file: {
+      async create({ data }: { data: Row }) {
+        files.push({ ...data });
+        return { ...data };
+      },
+      async findMany({ where }: { where: Record<string, unknown> }) {
+        return files.filter((row) => matches(row, where)).map((row) => ({ ...row }));
+      },
+      async findFirst({ where }: { where: Record<string, unknown> }) {
+        const row = files.find((file) => matches(file, where));
+        return row ? { ...row } : null;
+      },
+      async update({ where, data }: { where: { id: string }; data: Record<string, unknown> }) {
+        const row = files.find((file) => file.id === where.id)!;
+        return { ...Object.assign(row, data) };
+      },
+      async updateMany({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) {
+        const matched = files.filter((row) => matches(row, where));
+        matched.forEach((row) => Object.assign(row, data));
+        return { count: matched.length };
+      },
+    },
+    storageUsage: {
+      async findUnique({ where }: { where: { userId: string } }) {
+        return usage.get(where.userId) ?? null;
+      },
+      async upsert({ where, create, update }: {
+        where: { userId: string };
+        create: { bytesUsed: bigint; fileCount: number };
+        update: { bytesUsed: { increment: bigint }; fileCount: { increment: number } };
+      }) {
+        const current = usage.get(where.userId);
+        usage.set(where.userId, current
+          ? {
+              bytesUsed: current.bytesUsed + update.bytesUsed.increment,
+              fileCount: current.fileCount + update.fileCount.increment,
+            }
+          : { bytesUsed: create.bytesUsed, fileCount: create.fileCount });
+      },
+    },
+    subscription: { findUnique: async () => null },
+    userSettings: { findUnique: async () => null },
+  };
+}
+
+// A JPEG carrying EXIF, which the default metadata policy strips on completion
+async function photo(): Promise<Buffer> {
+  return sharp({ create: { width: 64, height: 64, channels: 3, background: '#3366aa' } })
+    .jpeg()
+    .withMetadata({ exif: { IFD0: { Copyright: 'Studio Nexora test' } } })
+    .toBuffer();
+}
+
+test.describe('Multipart uploads', () => {
+  const client = prisma as unknown as Record<string, unknown>;
+  const tables = ['file', 'storageUsage', 'subscription', 'userSettings'] as const;
+  const original = Object.fromEntries(tables.map((table) => [table, client[table]]));
+  const env = {
+    STORAGE_BACKEND: process.env.STORAGE_BACKEND,
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+    MALWARE_SCANNER: process.env.MALWARE_SCANNER,
+  };
+  let db: ReturnType<typeof fakeDatabase>;
+
+  // Start an upload and send its single part
+  async function upload(content: Buffer, declared: Buffer = content) {
+    const { file, session, parts } = await initiateMultipartUpload({
+      userId: 'user-1',
+      fileName: 'photo.jpg',
+      fileType: 'image/jpeg',
+      fileSize: declared.length,
+      checksum: crypto.createHash('sha256').update(declared).digest('hex'),
+    });
+    expect(parts).toHaveLength(1);
+    const partKey = storageKeyFromUrl(parts[0].url)!;
+    await getStorage().put(partKey, content);
+    return { file, session, partKey };
+  }
+
+  test.beforeEach(async () => {
+    db = fakeDatabase();
+    tables.forEach((table) => (client[table] = db[table]));
+    process.env.STORAGE_BACKEND = 'local';
+    process.env.STORAGE_LOCAL_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'multipart-'));
+    process.env.MALWARE_SCANNER = 'none';
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(process.env.STORAGE_LOCAL_DIR!, { recursive: true, force: true });
+    Object.assign(client, original);
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  test('should reserve the declared size and settle it on completion', async () => {
+    const content = await photo();
+    const { file, session } = await upload(content);
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: content.length, fileCount: 1 });
+
+    const completed = await completeMultipartUpload(file, session);
+
+    expect(completed.status).toBe('completed');
+    expect(completed.size).toBeLessThan(content.length);
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: completed.size, fileCount: 1 });
+    expect((await getStorage().head(session.key))?.size).toBe(completed.size);
+  });
+
+  test('should complete an upload only once', async () => {
+    const { file, session } = await upload(await photo());
+    await completeMultipartUpload(file, session);
+
+    await expect(completeMultipartUpload(file, session)).rejects.toMatchObject({
+      code: 'UPLOAD_IN_PROGRESS',
+    });
+    expect(await abortMultipartUpload(file, session)).toBe(false);
+  });
+
+  test('should hand back an incomplete upload so it can be resumed', async () => {
+    const content = await photo();
+    const { file, session, partKey } = await upload(content);
+    await getStorage().delete(partKey);
+
+    await expect(completeMultipartUpload(file, session)).rejects.toMatchObject({
+      code: 'INCOMPLETE_UPLOAD',
+    });
+    expect(db.files[0].status).toBe('uploading');
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: content.length, fileCount: 1 });
+  });
+
+  test('should release the reservation of an upload that fails its checksum', async () => {
+    const content = await photo();
+    const tampered = Buffer.from(content);
+    tampered[tampered.length - 3] ^= 0xff;
+    const { file, session } = await upload(tampered, content);
+
+    await expect(completeMultipartUpload(file, session)).rejects.toMatchObject({
+      code: 'CHECKSUM_MISMATCH',
+    });
+    expect(db.files[0].status).toBe('failed');
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: 0, fileCount: 0 });
+  });
+
+  test('should release an aborted upload once', async () => {
+    const { file, session } = await upload(await photo());
+
+    expect(await abortMultipartUpload(file, session)).toBe(true);
+    expect(await abortMultipartUpload(file, session)).toBe(false);
+    expect(db.files[0].status).toBe('aborted');
+    expect(await getStorageUsage('user-1')).toEqual({ bytesUsed: 0, fileCount: 0 });
+    expect(await getStorage().list(`multipart/${session.uploadId}/`)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { buildPipelineSpec, getPipelineKey, remainingCost, MAX_OUTPUTS } from '../../src/lib/pipeline';
+
+test.describe('Pipeline costing', () => {
+  test('should price the default chain per output after generation', async () => {
+    const spec = buildPipelineSpec('person');
+
+    expect(spec.quality).toBe('high');
+    expect(spec.steps.map((step) => [step.name, step.cost])).toEqual([
+      ['backgroundRemoval', 2],
+      ['faceEnhancement', 1],
+      ['generate', 9],
+      ['upscale', 6],
+    ]);
+    expect(spec.totalCost).toBe(18);
+  });
+
+  test('should not charge for steps that do not apply to the image type', async () => {
+    const spec = buildPipelineSpec('object');
+
+    expect(spec.totalCost).toBe(17);
+    expect(getPipelineKey(spec)).toBe('object:high:backgroundRemoval+generate+upscale');
+  });
+
+  test('should follow the requested quality, outputs and steps', async () => {
+    const spec = buildPipelineSpec('person', {
+      quality: 'standard',
+      numOutputs: 1,
+      noiseReduction: true,
+      upscale: false,
+    });
+
+    expect(spec.steps.map((step) => step.name)).toEqual([
+      'backgroundRemoval',
+      'faceEnhancement',
+      'generate',
+      'noiseReduction',
+    ]);
+    expect(spec.totalCost).toBe(5);
+  });
+
+  test('should cap outputs and fall back to the default quality', async () => {
+    const spec = buildPipelineSpec('landscape', {
+      quality: 'extreme' as never,
+      numOutputs: 10,
+      backgroundRemoval: false,
+      upscale: false,
+    });
+
+    expect(spec.quality).toBe('high');
+    expect(spec.steps.find((step) => step.name === 'generate')?.params.numOutputs).toBe(MAX_OUTPUTS);
+    expect(spec.totalCost).toBe(3 * MAX_OUTPUTS);
+  });
+
+  test('should price what is left after a step', async () => {
+    const spec = buildPipelineSpec('person');
+
+    expect(remainingCost(spec)).toBe(spec.totalCost);
+    expect(remainingCost(spec, 1)).toBe(15);
+    expect(remainingCost(spec, spec.steps.length - 1)).toBe(0);
+  });
+
+  test('should reject a pipeline with every step turned off', async () => {
+    expect(() =>
+      buildPipelineSpec('person', {
+        backgroundRemoval: false,
+        faceEnhancement: false,
+        generate: false,
+        upscale: false,
+      })
+    ).toThrow('Pipeline must include at least one step');
+  });
+});
@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import crypto from 'crypto';
+import { signWebhookPayload } from '../../src/lib/webhooks';
+
+test.describe('Webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ event: 'job.completed', jobId: 'job-1' });
+
+  test('should sign the timestamp and body with HMAC-SHA256', async () => {
+    const expected = crypto.createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload(secret, 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  test('should change with the body, timestamp and secret', async () => {
+    const signature = signWebhookPayload(secret, 1700000000, body);
+
+    expect(signWebhookPayload(secret, 1700000000, `${body} `)).not.toBe(signature);
+    expect(signWebhookPayload(secret, 1700000001, body)).not.toBe(signature);
+    expect(signWebhookPayload('whsec_other', 1700000000, body)).not.toBe(signature);
+  });
+});
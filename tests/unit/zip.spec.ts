@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { createZipStream } from '../../src/lib/zip';
+import type { ZipEntry } from '../../src/lib/zip';
+
+async function* entries(list: ZipEntry[]): AsyncGenerator<ZipEntry> {
+  yield* list;
+}
+
+async function buildZip(list: ZipEntry[]): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createZipStream(entries(list))) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Read every entry back through the central directory, as an unzip tool would
+function readZip(zip: Buffer) {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let cursor = zip.readUInt32LE(end + 16);
+
+  const files = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(cursor)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(cursor + 16);
+    const size = zip.readUInt32LE(cursor + 20);
+    const nameLength = zip.readUInt16LE(cursor + 28);
+    const offset = zip.readUInt32LE(cursor + 42);
+    const name = zip.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    expect(zip.readUInt32LE(offset + 14)).toBe(crc);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    files.push({ name, crc, data: zip.subarray(dataStart, dataStart + size) });
+
+    cursor += 46 + nameLength;
+  }
+  return files;
+}
+
+test.describe('ZIP writer', () => {
+  test('should store each entry with its name, bytes and CRC-32', async () => {
+    const zip = await buildZip([
+      { name: '001-portrait-1.jpg', data: Buffer.from('hello') },
+      { name: 'café/002.png', data: Buffer.from([0, 1, 2, 255]) },
+    ]);
+
+    const files = readZip(zip);
+    expect(files.map((file) => file.name)).toEqual(['001-portrait-1.jpg', 'café/002.png']);
+    expect(files[0].data.toString()).toBe('hello');
+    expect(files[0].crc).toBe(0x3610a686);
+    expect([...files[1].data]).toEqual([0, 1, 2, 255]);
+  });
+
+  test('should write a valid empty archive', async () => {
+    const zip = await buildZip([]);
+
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});